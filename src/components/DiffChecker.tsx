@@ -1,57 +1,223 @@
-import React, { useState, useMemo, useRef } from 'react';
-import { Copy, RotateCcw, FileText } from 'lucide-react';
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import { Copy, RotateCcw, FileText, FileDiff, X, Settings2, ChevronUp, ChevronDown, Link2, FileUp, FolderOpen } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ExportMenu } from './ExportMenu';
-import { exportAsImage, exportAsPDF, exportAsHTML } from '@/utils/exportUtils';
-import { DiffLine } from '../types';
+import { captureHTML, exportAsImage, exportAsPDF, exportAsHTML, exportAsText, escapeHtml } from '@/utils/exportUtils';
+import { createUnifiedDiff, findChangeBlocks, formatHunkHeader, formatUnifiedPatch, getDiffStats, getSideBySideRows } from '@/utils/diffUtils';
+import { applyPatch, parsePatch, reconstructFromPatch } from '@/utils/patchUtils';
+import { collectJsonChanges, createJsonPatch, diffJson } from '@/utils/jsonDiffUtils';
+import { diffTables, parseDelimited } from '@/utils/tableDiffUtils';
+import { detectLanguage, highlightLine, syntaxLanguages, syntaxTokenClasses, syntaxTokenColors } from '@/utils/syntaxUtils';
+import { collectDirectoryInputFiles, compareDirectories, readDirectoryEntry, readFileContent } from '@/utils/fileUtils';
+import JsonDiffView from './JsonDiffView';
+import DirectoryDiffView from './DirectoryDiffView';
+import TableDiffView from './TableDiffView';
+import MergeView from './MergeView';
+import { DiffOverviewRuler } from './DiffOverviewRuler';
+import { VirtualRows } from './VirtualRows';
+import { useDiffWorker } from '@/hooks/useDiffWorker';
+import { DecodedFile, DiffComparisonOptions, DiffHunk, DiffLine, DirectoryDiffEntry, ExportFormat, InlineGranularity, PatchFile, SyntaxLanguage, TextExportFormat } from '../types';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
 
+const comparisonOptionLabels: Array<[keyof DiffComparisonOptions, string]> = [
+  ['ignoreLeadingTrailingWhitespace', 'Ignore leading/trailing whitespace'],
+  ['ignoreAllWhitespace', 'Ignore all whitespace'],
+  ['ignoreCase', 'Ignore case'],
+  ['normalizeLineEndings', 'Normalize line endings (CRLF/LF)'],
+  ['ignoreBlankLines', 'Ignore blank lines'],
+];
+
+// Every diff row is rendered at this height so the panes can be virtualized and scrolled in lockstep.
+const ROW_HEIGHT = 28;
+
+type PaneSide = 'left' | 'right';
+
+interface DirectoryListing {
+  name: string;
+  files: Map<string, File>;
+}
+
+type UnifiedItem =
+  | { type: 'header'; hunk: DiffHunk }
+  | { type: 'line'; line: DiffLine }
+  | { type: 'eof' };
+
+const syntaxLanguageLabels: Record<SyntaxLanguage, string> = {
+  plaintext: 'Plain text',
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  json: 'JSON',
+  yaml: 'YAML',
+  sql: 'SQL',
+  python: 'Python',
+  go: 'Go',
+};
+
 export default function DiffChecker() {
+  const [workspace, setWorkspace] = useState<'compare' | 'merge'>('compare');
   const [leftText, setLeftText] = useState('');
   const [rightText, setRightText] = useState('');
-  const exportRef = useRef<HTMLDivElement>(null);
+  const [inlineGranularity, setInlineGranularity] = useState<InlineGranularity>('word');
+  const [syntaxLanguage, setSyntaxLanguage] = useState<SyntaxLanguage | 'auto'>('auto');
+  const [viewMode, setViewMode] = useState<'split' | 'unified'>('split');
+  const [contextLines, setContextLines] = useState(3);
+  const [patchPath, setPatchPath] = useState('file.txt');
+  const [comparisonOptions, setComparisonOptions] = useState<DiffComparisonOptions>({});
+  const [showOptions, setShowOptions] = useState(false);
+  const [compareMode, setCompareMode] = useState<'text' | 'json' | 'table'>('text');
+  const [jsonArrayKey, setJsonArrayKey] = useState('');
+  const [tableKeyColumn, setTableKeyColumn] = useState('');
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [showPatchPanel, setShowPatchPanel] = useState(false);
+  const [patchText, setPatchText] = useState('');
+  const [patchStatus, setPatchStatus] = useState<{
+    type: 'success' | 'warning' | 'error';
+    message: string;
+    rejectedHunks?: DiffHunk[];
+  } | null>(null);
+  const [fileInfo, setFileInfo] = useState<Record<PaneSide, DecodedFile | null>>({ left: null, right: null });
+  const [directories, setDirectories] = useState<Record<PaneSide, DirectoryListing | null>>({ left: null, right: null });
+  const [directoryDiff, setDirectoryDiff] = useState<DirectoryDiffEntry[] | null>(null);
+  const [selectedFilePath, setSelectedFilePath] = useState<string | null>(null);
+  const [fileError, setFileError] = useState('');
+  const [activeChange, setActiveChange] = useState(-1);
+  const [syncScroll, setSyncScroll] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+  // Which pane the hidden file/folder inputs are currently picking for.
+  const pickerSideRef = useRef<PaneSide>('left');
+  const leftPaneRef = useRef<HTMLDivElement>(null);
+  const rightPaneRef = useRef<HTMLDivElement>(null);
+  const unifiedPaneRef = useRef<HTMLDivElement>(null);
+  // The pane currently being scrolled programmatically, whose next scroll event must not echo back.
+  const syncingPaneRef = useRef<HTMLDivElement | null>(null);
 
-  const createDiff = (left: string, right: string): { left: DiffLine[]; right: DiffLine[] } => {
-    const leftLines = left.split('\n');
-    const rightLines = right.split('\n');
-    
-    const leftDiff: DiffLine[] = [];
-    const rightDiff: DiffLine[] = [];
-    
-    const maxLines = Math.max(leftLines.length, rightLines.length);
-    
-    for (let i = 0; i < maxLines; i++) {
-      const leftLine = leftLines[i] || '';
-      const rightLine = rightLines[i] || '';
-      
-      if (leftLine === rightLine) {
-        leftDiff.push({ type: 'unchanged', content: leftLine, lineNumber: i + 1 });
-        rightDiff.push({ type: 'unchanged', content: rightLine, lineNumber: i + 1 });
-      } else {
-        if (leftLine && !rightLine) {
-          leftDiff.push({ type: 'removed', content: leftLine, lineNumber: i + 1 });
-          rightDiff.push({ type: 'unchanged', content: '', lineNumber: i + 1 });
-        } else if (!leftLine && rightLine) {
-          leftDiff.push({ type: 'unchanged', content: '', lineNumber: i + 1 });
-          rightDiff.push({ type: 'added', content: rightLine, lineNumber: i + 1 });
-        } else {
-          leftDiff.push({ type: 'removed', content: leftLine, lineNumber: i + 1 });
-          rightDiff.push({ type: 'added', content: rightLine, lineNumber: i + 1 });
-        }
-      }
+  const { diff, unifiedHunks, isComputing } = useDiffWorker(
+    leftText,
+    rightText,
+    { ...comparisonOptions, inlineGranularity },
+    contextLines
+  );
+
+  const diffStats = useMemo(() => getDiffStats(diff, unifiedHunks), [diff, unifiedHunks]);
+
+  // The unified view is one flat list of fixed-height rows so it can be virtualized.
+  const unifiedItems = useMemo(
+    () => unifiedHunks.flatMap((hunk): UnifiedItem[] => [
+      { type: 'header', hunk },
+      ...hunk.lines.flatMap((line): UnifiedItem[] => line.noNewlineAtEnd
+        ? [{ type: 'line', line }, { type: 'eof' }]
+        : [{ type: 'line', line }]),
+    ]),
+    [unifiedHunks]
+  );
+
+  const unifiedRows = useMemo(
+    () => unifiedItems.map(item => ({
+      removed: item.type === 'line' && item.line.type === 'removed',
+      added: item.type === 'line' && item.line.type === 'added',
+    })),
+    [unifiedItems]
+  );
+
+  const changeBlocks = useMemo(
+    () => findChangeBlocks(viewMode === 'unified' ? unifiedRows : getSideBySideRows(diff)),
+    [viewMode, unifiedRows, diff]
+  );
+  const totalRows = viewMode === 'unified' ? unifiedRows.length : diff.left.length;
+  const activeBlock = changeBlocks[activeChange];
+
+  useEffect(() => {
+    setActiveChange(-1);
+  }, [changeBlocks]);
+
+  const scrollToChange = useCallback((index: number) => {
+    const block = changeBlocks[index];
+    const pane = viewMode === 'unified' ? unifiedPaneRef.current : leftPaneRef.current;
+    if (!block || !pane) return;
+
+    setActiveChange(index);
+    pane.scrollTop = Math.max(0, block.start * ROW_HEIGHT - pane.clientHeight / 3);
+  }, [changeBlocks, viewMode]);
+
+  const goToChange = useCallback((direction: 1 | -1) => {
+    if (changeBlocks.length === 0) return;
+    const next = activeChange === -1 && direction === -1
+      ? changeBlocks.length - 1
+      : (activeChange + direction + changeBlocks.length) % changeBlocks.length;
+    scrollToChange(next);
+  }, [activeChange, changeBlocks, scrollToChange]);
+
+  // Alt+↓ / Alt+↑ step through changes, except while typing in an input.
+  useEffect(() => {
+    if (workspace !== 'compare' || compareMode !== 'text') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!event.altKey || (event.key !== 'ArrowDown' && event.key !== 'ArrowUp')) return;
+      const target = event.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      event.preventDefault();
+      goToChange(event.key === 'ArrowDown' ? 1 : -1);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [workspace, compareMode, goToChange]);
+
+  const handlePaneScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const source = event.currentTarget;
+    if (syncingPaneRef.current === source) {
+      syncingPaneRef.current = null;
+      return;
+    }
+    if (!syncScroll) return;
+
+    const target = source === leftPaneRef.current ? rightPaneRef.current : leftPaneRef.current;
+    if (!target) return;
+
+    const { scrollTop, scrollLeft } = target;
+    target.scrollTop = source.scrollTop;
+    target.scrollLeft = source.scrollLeft;
+    if (target.scrollTop !== scrollTop || target.scrollLeft !== scrollLeft) {
+      syncingPaneRef.current = target;
     }
-    
-    return { left: leftDiff, right: rightDiff };
   };
 
-  const diff = useMemo(() => createDiff(leftText, rightText), [leftText, rightText]);
+  const detectedLanguage = useMemo(() => detectLanguage(rightText.trim() ? rightText : leftText), [leftText, rightText]);
+  const language = syntaxLanguage === 'auto' ? detectedLanguage : syntaxLanguage;
+
+  // Token colours sit on top of the row background; changed spans add their own highlight.
+  const renderLineContent = (line: DiffLine) => {
+    if (!line.content) return ' ';
 
-  const renderDiffLine = (line: DiffLine, side: 'left' | 'right') => {
+    const highlight = line.type === 'removed' ? 'bg-red-500/30' : 'bg-green-500/30';
+    return highlightLine(line.content, language, line.segments).map((span, index) => (
+      <span
+        key={index}
+        className={`${syntaxTokenClasses[span.kind]} ${span.changed ? `${highlight} rounded-sm` : ''}`}
+      >
+        {span.text}
+      </span>
+    ));
+  };
+
+  const renderLineContentHTML = (line: DiffLine) => {
+    return highlightLine(line.content, language, line.segments)
+      .map(span => {
+        const text = escapeHtml(span.text);
+        const colored = span.kind === 'plain' ? text : `<span style="color: ${syntaxTokenColors[span.kind]}">${text}</span>`;
+        return span.changed ? `<span class="diff-change">${colored}</span>` : colored;
+      })
+      .join('');
+  };
+
+  const getLineStyle = (type: DiffLine['type']) => {
     let bgColor = '';
     let textColor = 'text-foreground';
     let prefix = '';
 
-    switch (line.type) {
+    switch (type) {
       case 'added':
         bgColor = 'bg-green-500/10 border-l-2 border-green-500';
         textColor = 'text-green-400';
@@ -67,16 +233,65 @@ export default function DiffChecker() {
         textColor = 'text-muted-foreground';
         prefix = ' ';
         break;
+      case 'empty':
+        bgColor = 'bg-muted/20';
+        textColor = 'text-muted-foreground';
+        prefix = ' ';
+        break;
+    }
+
+    return { bgColor, textColor, prefix };
+  };
+
+  const isInActiveBlock = (row: number) => !!activeBlock && row >= activeBlock.start && row <= activeBlock.end;
+
+  const renderDiffLine = (line: DiffLine, side: 'left' | 'right', index: number) => {
+    const { bgColor, textColor, prefix } = getLineStyle(line.type);
+    const lineNumber = side === 'left' ? line.oldLineNumber : line.newLineNumber;
+
+    return (
+      <div
+        key={`${side}-${index}`}
+        className={`flex items-start space-x-3 h-7 px-4 py-1 font-mono text-sm ${bgColor} ${textColor} ${isInActiveBlock(index) ? 'ring-1 ring-inset ring-blue-500/50' : ''}`}
+      >
+        <span className="text-muted-foreground min-w-12 text-right">{lineNumber ?? ''}</span>
+        <span className="text-muted-foreground w-4">{prefix}</span>
+        <span className="flex-1 whitespace-pre">{renderLineContent(line)}</span>
+      </div>
+    );
+  };
+
+  const renderUnifiedRow = (row: number) => {
+    const item = unifiedItems[row];
+
+    if (item.type === 'header') {
+      return (
+        <div key={row} className="h-7 px-4 py-1 font-mono text-sm bg-blue-500/10 text-blue-400 border-y border-border">
+          {formatHunkHeader(item.hunk)}
+        </div>
+      );
+    }
+
+    if (item.type === 'eof') {
+      return (
+        <div key={row} className="h-7 px-4 py-1 font-mono text-xs italic text-muted-foreground">
+          \ No newline at end of file
+        </div>
+      );
     }
 
+    const { line } = item;
+    const { bgColor, textColor, prefix } = getLineStyle(line.type);
+
     return (
       <div
-        key={`${side}-${line.lineNumber}`}
-        className={`flex items-start space-x-3 px-4 py-1 font-mono text-sm ${bgColor} ${textColor}`}
+        key={row}
+        className={`flex items-start space-x-3 h-7 px-4 py-1 font-mono text-sm ${bgColor} ${textColor} ${isInActiveBlock(row) ? 'ring-1 ring-inset ring-blue-500/50' : ''}`}
       >
-        <span className="text-muted-foreground min-w-12 text-right">{line.lineNumber}</span>
+        <span className="text-muted-foreground min-w-12 text-right">{line.oldLineNumber ?? ''}</span>
+        <span className="text-muted-foreground min-w-12 text-right">{line.newLineNumber ?? ''}</span>
         <span className="text-muted-foreground w-4">{prefix}</span>
-        <span className="flex-1 whitespace-pre-wrap">{line.content || ' '}</span>
+        <span className="flex-1 whitespace-pre">{renderLineContent(line)}</span>
       </div>
     );
   };
@@ -105,33 +320,291 @@ export default function DiffChecker() {
   const handleClear = () => {
     setLeftText('');
     setRightText('');
+    setFileInfo({ left: null, right: null });
+    setDirectories({ left: null, right: null });
+    setSelectedFilePath(null);
+    setFileError('');
+  };
+
+  const setPaneText = (side: PaneSide, text: string) => {
+    if (side === 'left') {
+      setLeftText(text);
+    } else {
+      setRightText(text);
+    }
   };
 
-  const handleExport = async (format: 'png' | 'jpg' | 'pdf' | 'html') => {
-    if (!exportRef.current) return;
+  const handlePaneEdit = (side: PaneSide, text: string) => {
+    setPaneText(side, text);
+    if (fileInfo[side]) setFileInfo(prev => ({ ...prev, [side]: null }));
+  };
+
+  const loadFile = async (side: PaneSide, file: File) => {
+    try {
+      const decoded = await readFileContent(file);
+      setPaneText(side, decoded.text);
+      setFileInfo(prev => ({ ...prev, [side]: decoded }));
+      setFileError('');
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : `Could not read ${file.name}`);
+    }
+  };
+
+  const loadDirectory = (side: PaneSide, listing: DirectoryListing) => {
+    setDirectories(prev => ({ ...prev, [side]: listing }));
+    setSelectedFilePath(null);
+    setFileError('');
+  };
+
+  useEffect(() => {
+    const { left, right } = directories;
+    if (!left || !right) {
+      setDirectoryDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    compareDirectories(left.files, right.files)
+      .then(entries => {
+        if (!cancelled) setDirectoryDiff(entries);
+      })
+      .catch(error => {
+        if (!cancelled) setFileError(error instanceof Error ? error.message : 'Could not compare the folders');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [directories]);
+
+  // Opens the selected entry's two versions in the panes; a missing side is shown as empty.
+  const handleSelectEntry = async (entry: DirectoryDiffEntry) => {
+    setSelectedFilePath(entry.path);
+    setPatchPath(entry.path);
+    try {
+      const [left, right] = await Promise.all([
+        entry.left ? readFileContent(entry.left) : null,
+        entry.right ? readFileContent(entry.right) : null,
+      ]);
+      setLeftText(left?.text ?? '');
+      setRightText(right?.text ?? '');
+      setFileInfo({ left, right });
+      setFileError('');
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : `Could not read ${entry.path}`);
+    }
+  };
 
+  const handlePaneDrop = (side: PaneSide) => (e: React.DragEvent<HTMLTextAreaElement>) => {
+    const file = e.dataTransfer.files[0];
+    // Entries have to be taken before the event returns; the data transfer is emptied afterwards.
+    const entry = e.dataTransfer.items[0]?.webkitGetAsEntry();
+    if (!file && !entry) return;
+
+    e.preventDefault();
+    if (entry?.isDirectory) {
+      readDirectoryEntry(entry as FileSystemDirectoryEntry)
+        .then(files => loadDirectory(side, { name: entry.name, files }))
+        .catch(error => setFileError(error instanceof Error ? error.message : `Could not read ${entry.name}`));
+    } else if (file) {
+      loadFile(side, file);
+    }
+  };
+
+  const openPicker = (side: PaneSide, input: HTMLInputElement | null) => {
+    if (!input) return;
+    pickerSideRef.current = side;
+    input.value = '';
+    input.click();
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadFile(pickerSideRef.current, file);
+  };
+
+  const handleFolderInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { files } = e.target;
+    if (files && files.length > 0) loadDirectory(pickerSideRef.current, collectDirectoryInputFiles(files));
+  };
+
+  const describeFile = (info: DecodedFile) =>
+    info.binary
+      ? `${info.name} · binary, ${info.size.toLocaleString()} bytes`
+      : `${info.name} · ${info.encoding.toUpperCase()}`;
+
+  const readPatch = (): PatchFile[] | null => {
+    try {
+      const files = parsePatch(patchText);
+      if (files.length === 0) {
+        setPatchStatus({ type: 'error', message: 'No unified diff hunks found in the patch.' });
+        return null;
+      }
+      return files;
+    } catch (error) {
+      setPatchStatus({ type: 'error', message: error instanceof Error ? error.message : 'Invalid patch' });
+      return null;
+    }
+  };
+
+  // Only the first file of a multi-file patch is used, since there is one pair of panes.
+  const describePatch = (files: PatchFile[]) => {
+    const [file] = files;
+    const name = file.newPath && file.newPath !== '/dev/null' ? file.newPath : file.oldPath;
+    return `${name || 'patch'}${files.length > 1 ? ` (first of ${files.length} files)` : ''}`;
+  };
+
+  const handleLoadPatch = () => {
+    const files = readPatch();
+    if (!files) return;
+
+    const [file] = files;
+    const { original, modified, complete } = reconstructFromPatch(file.hunks);
+    setLeftText(original);
+    setRightText(modified);
+    if (file.newPath && file.newPath !== '/dev/null') setPatchPath(file.newPath);
+    setPatchStatus(complete
+      ? { type: 'success', message: `Loaded ${describePatch(files)} into both panes.` }
+      : { type: 'warning', message: `Loaded ${describePatch(files)}; lines outside the hunks are not in the patch and are shown as placeholders.` });
+  };
+
+  const handleApplyPatch = () => {
+    const files = readPatch();
+    if (!files) return;
+
+    const [file] = files;
+    const { text, appliedHunks, rejectedHunks } = applyPatch(leftText, file.hunks);
+    setRightText(text);
+    setPatchStatus(rejectedHunks.length === 0
+      ? { type: 'success', message: `Applied all ${appliedHunks.length} hunks of ${describePatch(files)} to the original text.` }
+      : {
+          type: appliedHunks.length > 0 ? 'warning' : 'error',
+          message: `Applied ${appliedHunks.length} of ${file.hunks.length} hunks of ${describePatch(files)}; ${rejectedHunks.length} rejected.`,
+          rejectedHunks,
+        });
+  };
+
+  const handlePatchDrop = (e: React.DragEvent<HTMLTextAreaElement>) => {
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+
+    e.preventDefault();
+    file.text().then(text => {
+      setPatchText(text);
+      setPatchStatus(null);
+    });
+  };
+
+  const parsedJson = useMemo(() => {
+    if (!leftText.trim() || !rightText.trim()) return null;
+    try {
+      return { left: JSON.parse(leftText) as unknown, right: JSON.parse(rightText) as unknown };
+    } catch {
+      return null;
+    }
+  }, [leftText, rightText]);
+
+  const jsonDiff = useMemo(
+    () => compareMode === 'json' && parsedJson
+      ? diffJson(parsedJson.left, parsedJson.right, { arrayKey: jsonArrayKey.trim() || undefined })
+      : null,
+    [compareMode, parsedJson, jsonArrayKey]
+  );
+
+  // Table mode needs a header row with at least two columns on both sides.
+  const parsedTables = useMemo(() => {
+    if (!leftText.trim() || !rightText.trim()) return null;
+    try {
+      const left = parseDelimited(leftText);
+      const right = parseDelimited(rightText);
+      return left.headers.length > 1 && right.headers.length > 1 ? { left, right } : null;
+    } catch {
+      return null;
+    }
+  }, [leftText, rightText]);
+
+  const tableKeyOptions = parsedTables
+    ? parsedTables.left.headers.filter(name => parsedTables.right.headers.includes(name))
+    : [];
+  const activeTableKey = tableKeyOptions.includes(tableKeyColumn) ? tableKeyColumn : '';
+
+  const tableDiff = useMemo(
+    () => compareMode === 'table' && parsedTables
+      ? diffTables(parsedTables.left, parsedTables.right, activeTableKey || undefined)
+      : null,
+    [compareMode, parsedTables, activeTableKey]
+  );
+
+  const textExportFormats: { format: TextExportFormat; label: string }[] = [
+    { format: 'patch', label: 'Unified Patch (.patch)' },
+    ...(parsedJson ? [{ format: 'json-patch' as const, label: 'JSON Patch (RFC 6902)' }] : []),
+  ];
+
+  const handleExport = async (format: ExportFormat) => {
     const filename = `diff-comparison-${Date.now()}`;
     
-    if (format === 'html') {
+    if (format === 'patch') {
+      // The patch is always computed strictly so applying it reproduces the modified text exactly.
+      const hunks = createUnifiedDiff(leftText, rightText, { context: contextLines });
+      exportAsText(formatUnifiedPatch(hunks, patchPath), filename, 'patch', 'text/x-diff');
+    } else if (format === 'json-patch') {
+      if (!parsedJson) return;
+      const operations = createJsonPatch(parsedJson.left, parsedJson.right, { arrayKey: jsonArrayKey.trim() || undefined });
+      exportAsText(JSON.stringify(operations, null, 2), filename, 'json', 'application/json-patch+json');
+    } else {
       const htmlContent = `
         <h2>Text Comparison</h2>
         <div style="display: flex; gap: 20px;">
           <div style="flex: 1;">
             <h3>Original Text</h3>
-            <pre style="background: #f5f5f5; padding: 15px; border-radius: 5px;">${leftText}</pre>
+            <pre style="background: #f5f5f5; padding: 15px; border-radius: 5px;">${escapeHtml(leftText)}</pre>
           </div>
           <div style="flex: 1;">
             <h3>Modified Text</h3>
-            <pre style="background: #f5f5f5; padding: 15px; border-radius: 5px;">${rightText}</pre>
+            <pre style="background: #f5f5f5; padding: 15px; border-radius: 5px;">${escapeHtml(rightText)}</pre>
           </div>
         </div>
         <h3>Differences</h3>
+        ${tableDiff ? `
+        <table style="border-collapse: collapse; font-family: monospace; font-size: 12px;">
+          <tr>
+            <th style="padding: 2px 8px; text-align: left;">${activeTableKey ? escapeHtml(activeTableKey) : 'row'}</th>
+            ${tableDiff.columns.map(column => `
+              <th class="diff-${column.status}" style="padding: 2px 8px; text-align: left;">${escapeHtml(column.name)}</th>
+            `).join('')}
+          </tr>
+          ${tableDiff.rows.filter(row => row.status !== 'unchanged').map(row => `
+            <tr class="diff-${row.status === 'changed' ? 'unchanged' : row.status}">
+              <td style="padding: 2px 8px;">${escapeHtml(row.key)}</td>
+              ${row.cells.map(cell => `
+                <td style="padding: 2px 8px;">${cell.changed
+                  ? `<del>${escapeHtml(cell.oldValue ?? '')}</del> <ins>${escapeHtml(cell.newValue ?? '')}</ins>`
+                  : escapeHtml(cell.newValue ?? cell.oldValue ?? '')}</td>
+              `).join('')}
+            </tr>
+          `).join('')}
+        </table>
+        ` : jsonDiff ? collectJsonChanges(jsonDiff).map(node => `
+          <div class="diff-${node.change === 'added' ? 'added' : node.change === 'removed' ? 'removed' : 'unchanged'}" style="padding: 2px 8px; font-family: monospace; font-size: 12px;">
+            ${escapeHtml(node.path)}: ${node.change}
+            ${node.oldValue !== undefined ? ` <del>${escapeHtml(JSON.stringify(node.oldValue))}</del>` : ''}
+            ${node.newValue !== undefined ? ` <ins>${escapeHtml(JSON.stringify(node.newValue))}</ins>` : ''}
+          </div>
+        `).join('') : viewMode === 'unified' ? unifiedHunks.map(hunk => `
+          <div style="padding: 2px 8px; font-family: monospace; font-size: 12px; color: #0c63e4;">
+            ${escapeHtml(formatHunkHeader(hunk))}
+          </div>
+          ${hunk.lines.map(line => `
+            <div class="diff-${line.type}" style="padding: 2px 8px; font-family: monospace; font-size: 12px;">
+              ${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '} ${renderLineContentHTML(line)}
+            </div>
+          `).join('')}
+        `).join('') : `
         <div style="display: flex; gap: 20px;">
           <div style="flex: 1;">
             <h4>Original</h4>
             ${diff.left.map(line => `
               <div class="diff-${line.type}" style="padding: 2px 8px; font-family: monospace; font-size: 12px;">
-                ${line.lineNumber}: ${line.type === 'removed' ? '-' : ' '} ${line.content}
+                ${line.oldLineNumber ?? ''}: ${line.type === 'removed' ? '-' : ' '} ${renderLineContentHTML(line)}
               </div>
             `).join('')}
           </div>
@@ -139,17 +612,19 @@ export default function DiffChecker() {
             <h4>Modified</h4>
             ${diff.right.map(line => `
               <div class="diff-${line.type}" style="padding: 2px 8px; font-family: monospace; font-size: 12px;">
-                ${line.lineNumber}: ${line.type === 'added' ? '+' : ' '} ${line.content}
+                ${line.newLineNumber ?? ''}: ${line.type === 'added' ? '+' : ' '} ${renderLineContentHTML(line)}
               </div>
             `).join('')}
           </div>
         </div>
+        `}
       `;
-      exportAsHTML(htmlContent, filename);
-    } else if (format === 'pdf') {
-      await exportAsPDF(exportRef.current, filename);
-    } else {
-      await exportAsImage(exportRef.current, filename, format);
+      if (format === 'html') {
+        exportAsHTML(htmlContent, filename);
+      } else {
+        // The panes only mount the rows on screen, so images are taken of the full diff rendered as HTML.
+        await captureHTML(htmlContent, element => (format === 'pdf' ? exportAsPDF(element, filename) : exportAsImage(element, filename, format)));
+      }
     }
   };
 
@@ -160,102 +635,234 @@ export default function DiffChecker() {
         <div className="flex items-center justify-between">
           <div>
             <h2 className="text-xl font-semibold text-foreground">Diff Checker</h2>
-            <p className="text-muted-foreground text-sm mt-1">Compare two texts and highlight differences</p>
+            <p className="text-muted-foreground text-sm mt-1">
+              {workspace === 'merge'
+                ? 'Merge two versions against their common base and resolve conflicts'
+                : 'Compare two texts and highlight differences'}
+            </p>
           </div>
           <div className="flex space-x-2">
-            <Button
-              onClick={handleLoadSample}
-              variant="outline"
-              size="sm"
-              className="bg-blue-500/20 text-blue-400 border-blue-500/30 hover:bg-blue-500/30"
-            >
-              <FileText size={16} className="mr-2" />
-              Load Sample
-            </Button>
-            <Button
-              onClick={handleClear}
-              variant="ghost"
-              size="sm"
-            >
-              <RotateCcw size={16} className="mr-2" />
-              Clear
-            </Button>
-            <ExportMenu 
-              onExport={handleExport}
-              disabled={!leftText && !rightText}
-            />
+            {(['compare', 'merge'] as const).map(value => (
+              <Button
+                key={value}
+                onClick={() => setWorkspace(value)}
+                variant={workspace === value ? 'secondary' : 'ghost'}
+                size="sm"
+                className="capitalize"
+              >
+                {value}
+              </Button>
+            ))}
+            {workspace === 'compare' && (
+              <>
+                <Button
+                  onClick={handleLoadSample}
+                  variant="outline"
+                  size="sm"
+                  className="bg-blue-500/20 text-blue-400 border-blue-500/30 hover:bg-blue-500/30"
+                >
+                  <FileText size={16} className="mr-2" />
+                  Load Sample
+                </Button>
+                <Button
+                  onClick={() => setShowPatchPanel(!showPatchPanel)}
+                  variant={showPatchPanel ? 'secondary' : 'ghost'}
+                  size="sm"
+                >
+                  <FileDiff size={16} className="mr-2" />
+                  Patch
+                </Button>
+                <Button
+                  onClick={handleClear}
+                  variant="ghost"
+                  size="sm"
+                >
+                  <RotateCcw size={16} className="mr-2" />
+                  Clear
+                </Button>
+                <ExportMenu 
+                  onExport={handleExport}
+                  disabled={!leftText && !rightText}
+                  textFormats={textExportFormats}
+                />
+              </>
+            )}
           </div>
         </div>
       </div>
 
-      <div ref={exportRef} className="flex-1">
-        <PanelGroup direction="vertical">
-          {/* Input Panels */}
-          <Panel defaultSize={50} minSize={30}>
-            <PanelGroup direction="horizontal">
-              <Panel defaultSize={50} minSize={25}>
-                <div className="h-full p-6 border-r border-border">
-                  <div className="h-full flex flex-col">
-                    <div className="flex items-center justify-between mb-4">
-                      <label className="text-foreground font-medium">Original Text</label>
-                      <Button
-                        onClick={() => navigator.clipboard.writeText(leftText)}
-                        variant="ghost"
-                        size="sm"
-                      >
-                        <Copy size={16} />
-                      </Button>
+      {/* Kept mounted while hidden so the merge inputs survive switching back to compare */}
+      <div className={workspace === 'merge' ? 'flex-1 min-h-0' : 'hidden'}>
+        <MergeView />
+      </div>
+
+      {workspace === 'compare' && (
+        <>
+          {/* Patch Import */}
+          {showPatchPanel && (
+            <div className="p-6 border-b border-border space-y-3">
+              <div className="flex items-center justify-between">
+                <label className="text-foreground font-medium">Unified Diff / Patch</label>
+                <div className="flex space-x-2">
+                  <Button
+                    onClick={handleLoadPatch}
+                    variant="outline"
+                    size="sm"
+                    disabled={!patchText.trim()}
+                  >
+                    Load into Panes
+                  </Button>
+                  <Button
+                    onClick={handleApplyPatch}
+                    variant="outline"
+                    size="sm"
+                    disabled={!patchText.trim()}
+                  >
+                    Apply to Original
+                  </Button>
+                  <Button
+                    onClick={() => setShowPatchPanel(false)}
+                    variant="ghost"
+                    size="sm"
+                  >
+                    <X size={16} />
+                  </Button>
+                </div>
+              </div>
+              <textarea
+                value={patchText}
+                onChange={(e) => {
+                  setPatchText(e.target.value);
+                  setPatchStatus(null);
+                }}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={handlePatchDrop}
+                placeholder="Paste or drop a .diff / .patch file here..."
+                className="w-full h-32 bg-background border border-border rounded-xl p-4 text-foreground placeholder-muted-foreground font-mono text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+              />
+              {patchStatus && (
+                <div
+                  className={`p-3 rounded-lg border text-sm ${
+                    patchStatus.type === 'success'
+                      ? 'bg-green-500/10 border-green-500/30 text-green-400'
+                      : patchStatus.type === 'warning'
+                        ? 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400'
+                        : 'bg-red-500/10 border-red-500/30 text-red-400'
+                  }`}
+                >
+                  <div>{patchStatus.message}</div>
+                  {patchStatus.rejectedHunks?.map((hunk, index) => (
+                    <div key={index} className="font-mono text-xs mt-1">
+                      Rejected {formatHunkHeader(hunk)}
                     </div>
-                    <textarea
-                      value={leftText}
-                      onChange={(e) => setLeftText(e.target.value)}
-                      placeholder="Paste your original text here..."
-                      className="flex-1 w-full bg-background border border-border rounded-xl p-4 text-foreground placeholder-muted-foreground font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
-                    />
-                  </div>
+                  ))}
                 </div>
-              </Panel>
+              )}
+            </div>
+          )}
 
-              <PanelResizeHandle className="w-2 bg-border hover:bg-border/80 transition-colors" />
-
-              <Panel defaultSize={50} minSize={25}>
-                <div className="h-full p-6">
-                  <div className="h-full flex flex-col">
-                    <div className="flex items-center justify-between mb-4">
-                      <label className="text-foreground font-medium">Modified Text</label>
-                      <Button
-                        onClick={() => navigator.clipboard.writeText(rightText)}
-                        variant="ghost"
-                        size="sm"
-                      >
-                        <Copy size={16} />
-                      </Button>
-                    </div>
-                    <textarea
-                      value={rightText}
-                      onChange={(e) => setRightText(e.target.value)}
-                      placeholder="Paste your modified text here..."
-                      className="flex-1 w-full bg-background border border-border rounded-xl p-4 text-foreground placeholder-muted-foreground font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
-                    />
+          <input ref={fileInputRef} type="file" className="hidden" onChange={handleFileInput} />
+          <input
+            ref={(input) => {
+              folderInputRef.current = input;
+              if (input) input.webkitdirectory = true;
+            }}
+            type="file"
+            className="hidden"
+            onChange={handleFolderInput}
+          />
+
+          {/* Folder Comparison */}
+          {(directories.left || directories.right) && (
+            <div className="h-64 border-b border-border flex flex-col">
+              <div className="px-6 py-3 border-b border-border flex items-center justify-between">
+                <label className="text-foreground font-medium">Folder Comparison</label>
+                <Button
+                  onClick={() => {
+                    setDirectories({ left: null, right: null });
+                    setSelectedFilePath(null);
+                  }}
+                  variant="ghost"
+                  size="sm"
+                >
+                  <X size={16} />
+                </Button>
+              </div>
+              <div className="flex-1 min-h-0">
+                {directoryDiff && directories.left && directories.right ? (
+                  <DirectoryDiffView
+                    leftName={directories.left.name}
+                    rightName={directories.right.name}
+                    entries={directoryDiff}
+                    selectedPath={selectedFilePath}
+                    onSelect={handleSelectEntry}
+                  />
+                ) : (
+                  <div className="px-6 py-3 text-sm text-muted-foreground">
+                    {directories.left && directories.right
+                      ? 'Comparing folders...'
+                      : `Loaded ${(directories.left ?? directories.right)!.name} as the ${directories.left ? 'original' : 'modified'} folder. Drop or open a folder on the other side to compare.`}
                   </div>
-                </div>
-              </Panel>
-            </PanelGroup>
-          </Panel>
+                )}
+              </div>
+            </div>
+          )}
+
+          {fileError && (
+            <div className="mx-6 mt-3 p-3 rounded-lg border text-sm bg-red-500/10 border-red-500/30 text-red-400">{fileError}</div>
+          )}
 
-          {/* Diff Visualization */}
-          {(leftText || rightText) && (
-            <>
-              <PanelResizeHandle className="h-2 bg-border hover:bg-border/80 transition-colors" />
+          <div className="flex-1">
+            <PanelGroup direction="vertical">
+              {/* Input Panels */}
               <Panel defaultSize={50} minSize={30}>
                 <PanelGroup direction="horizontal">
                   <Panel defaultSize={50} minSize={25}>
-                    <div className="h-full border-r border-border">
-                      <div className="p-4 border-b border-border">
-                        <h3 className="text-foreground font-medium">Original</h3>
-                      </div>
-                      <div className="h-[calc(100%-60px)] overflow-auto bg-muted/5">
-                        {diff.left.map(line => renderDiffLine(line, 'left'))}
+                    <div className="h-full p-6 border-r border-border">
+                      <div className="h-full flex flex-col">
+                        <div className="flex items-center justify-between mb-4">
+                          <div className="min-w-0">
+                            <label className="text-foreground font-medium">Original Text</label>
+                            {fileInfo.left && (
+                              <div className={`text-xs truncate ${fileInfo.left.binary ? 'text-yellow-400' : 'text-muted-foreground'}`}>
+                                {describeFile(fileInfo.left)}
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex space-x-1">
+                            <Button
+                              onClick={() => openPicker('left', fileInputRef.current)}
+                              variant="ghost"
+                              size="sm"
+                              title="Open file"
+                            >
+                              <FileUp size={16} />
+                            </Button>
+                            <Button
+                              onClick={() => openPicker('left', folderInputRef.current)}
+                              variant="ghost"
+                              size="sm"
+                              title="Open folder"
+                            >
+                              <FolderOpen size={16} />
+                            </Button>
+                            <Button
+                              onClick={() => navigator.clipboard.writeText(leftText)}
+                              variant="ghost"
+                              size="sm"
+                            >
+                              <Copy size={16} />
+                            </Button>
+                          </div>
+                        </div>
+                        <textarea
+                          value={leftText}
+                          onChange={(e) => handlePaneEdit('left', e.target.value)}
+                          onDragOver={(e) => e.preventDefault()}
+                          onDrop={handlePaneDrop('left')}
+                          placeholder="Paste your original text here, or drop a file or folder..."
+                          className="flex-1 w-full bg-background border border-border rounded-xl p-4 text-foreground placeholder-muted-foreground font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+                        />
                       </div>
                     </div>
                   </Panel>
@@ -263,21 +870,338 @@ export default function DiffChecker() {
                   <PanelResizeHandle className="w-2 bg-border hover:bg-border/80 transition-colors" />
 
                   <Panel defaultSize={50} minSize={25}>
-                    <div className="h-full">
-                      <div className="p-4 border-b border-border">
-                        <h3 className="text-foreground font-medium">Modified</h3>
-                      </div>
-                      <div className="h-[calc(100%-60px)] overflow-auto bg-muted/5">
-                        {diff.right.map(line => renderDiffLine(line, 'right'))}
+                    <div className="h-full p-6">
+                      <div className="h-full flex flex-col">
+                        <div className="flex items-center justify-between mb-4">
+                          <div className="min-w-0">
+                            <label className="text-foreground font-medium">Modified Text</label>
+                            {fileInfo.right && (
+                              <div className={`text-xs truncate ${fileInfo.right.binary ? 'text-yellow-400' : 'text-muted-foreground'}`}>
+                                {describeFile(fileInfo.right)}
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex space-x-1">
+                            <Button
+                              onClick={() => openPicker('right', fileInputRef.current)}
+                              variant="ghost"
+                              size="sm"
+                              title="Open file"
+                            >
+                              <FileUp size={16} />
+                            </Button>
+                            <Button
+                              onClick={() => openPicker('right', folderInputRef.current)}
+                              variant="ghost"
+                              size="sm"
+                              title="Open folder"
+                            >
+                              <FolderOpen size={16} />
+                            </Button>
+                            <Button
+                              onClick={() => navigator.clipboard.writeText(rightText)}
+                              variant="ghost"
+                              size="sm"
+                            >
+                              <Copy size={16} />
+                            </Button>
+                          </div>
+                        </div>
+                        <textarea
+                          value={rightText}
+                          onChange={(e) => handlePaneEdit('right', e.target.value)}
+                          onDragOver={(e) => e.preventDefault()}
+                          onDrop={handlePaneDrop('right')}
+                          placeholder="Paste your modified text here, or drop a file or folder..."
+                          className="flex-1 w-full bg-background border border-border rounded-xl p-4 text-foreground placeholder-muted-foreground font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+                        />
                       </div>
                     </div>
                   </Panel>
                 </PanelGroup>
               </Panel>
-            </>
-          )}
-        </PanelGroup>
-      </div>
+
+              {/* Diff Visualization */}
+              {(leftText || rightText) && (
+                <>
+                  <PanelResizeHandle className="h-2 bg-border hover:bg-border/80 transition-colors" />
+                  <Panel defaultSize={50} minSize={30}>
+                    <div className="h-full flex flex-col">
+                      {/* Diff Toolbar */}
+                      <div className="px-4 py-2 border-b border-border flex items-center justify-between">
+                        <div className="flex items-center space-x-2">
+                          {(['text', 'json', 'table'] as const).map(mode => {
+                            const unavailable = (mode === 'json' && !parsedJson) || (mode === 'table' && !parsedTables);
+                            return (
+                              <Button
+                                key={mode}
+                                onClick={() => setCompareMode(mode)}
+                                variant={compareMode === mode ? 'secondary' : 'ghost'}
+                                size="sm"
+                                disabled={unavailable}
+                                title={unavailable
+                                  ? mode === 'json' ? 'Both panes must contain valid JSON' : 'Both panes must contain CSV or TSV with a header row'
+                                  : undefined}
+                                className="uppercase"
+                              >
+                                {mode}
+                              </Button>
+                            );
+                          })}
+                          {compareMode === 'text' && <div className="w-px h-6 bg-border" />}
+                          {compareMode === 'text' && (['split', 'unified'] as const).map(mode => (
+                            <Button
+                              key={mode}
+                              onClick={() => setViewMode(mode)}
+                              variant={viewMode === mode ? 'secondary' : 'ghost'}
+                              size="sm"
+                              className="capitalize"
+                            >
+                              {mode}
+                            </Button>
+                          ))}
+                        </div>
+                        {compareMode !== 'text' ? (
+                          <div className="flex items-center space-x-2">
+                            {compareMode === 'json' ? (
+                              <>
+                                <label className="text-sm text-muted-foreground">Match arrays by</label>
+                                <input
+                                  value={jsonArrayKey}
+                                  onChange={(e) => setJsonArrayKey(e.target.value)}
+                                  placeholder="index"
+                                  className="w-24 bg-background border border-border rounded-md px-2 py-1 font-mono text-sm text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                                />
+                              </>
+                            ) : (
+                              <>
+                                <label className="text-sm text-muted-foreground">Key column</label>
+                                <select
+                                  value={activeTableKey}
+                                  onChange={(e) => setTableKeyColumn(e.target.value)}
+                                  className="bg-background border border-border rounded-md px-2 py-1 font-mono text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                                >
+                                  <option value="">Row position</option>
+                                  {tableKeyOptions.map(name => (
+                                    <option key={name} value={name}>{name}</option>
+                                  ))}
+                                </select>
+                              </>
+                            )}
+                            <label className="flex items-center space-x-2 text-sm text-muted-foreground cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={showUnchanged}
+                                onChange={(e) => setShowUnchanged(e.target.checked)}
+                                className="accent-primary"
+                              />
+                              <span>Show unchanged</span>
+                            </label>
+                          </div>
+                        ) : (
+                          <div className="flex items-center space-x-2">
+                            {viewMode === 'unified' && (
+                              <>
+                                <label className="text-sm text-muted-foreground">Context</label>
+                                <input
+                                  type="number"
+                                  min={0}
+                                  max={99}
+                                  value={contextLines}
+                                  onChange={(e) => setContextLines(Math.max(0, Math.min(99, Number(e.target.value) || 0)))}
+                                  className="w-16 bg-background border border-border rounded-md px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                                />
+                                <label className="text-sm text-muted-foreground">Path</label>
+                                <input
+                                  value={patchPath}
+                                  onChange={(e) => setPatchPath(e.target.value)}
+                                  className="w-40 bg-background border border-border rounded-md px-2 py-1 font-mono text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                                />
+                              </>
+                            )}
+                            <Button
+                              onClick={() => setShowOptions(!showOptions)}
+                              variant={showOptions ? 'secondary' : 'ghost'}
+                              size="sm"
+                            >
+                              <Settings2 size={16} className="mr-2" />
+                              Options
+                            </Button>
+                            <label className="text-sm text-muted-foreground">Syntax</label>
+                            <select
+                              value={syntaxLanguage}
+                              onChange={(e) => setSyntaxLanguage(e.target.value as SyntaxLanguage | 'auto')}
+                              className="bg-background border border-border rounded-md px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                            >
+                              <option value="auto">Auto ({syntaxLanguageLabels[detectedLanguage]})</option>
+                              {syntaxLanguages.map(value => (
+                                <option key={value} value={value}>{syntaxLanguageLabels[value]}</option>
+                              ))}
+                            </select>
+                            <span className="text-sm text-muted-foreground">Highlight</span>
+                            {(['word', 'char'] as InlineGranularity[]).map(granularity => (
+                              <Button
+                                key={granularity}
+                                onClick={() => setInlineGranularity(granularity)}
+                                variant={inlineGranularity === granularity ? 'secondary' : 'ghost'}
+                                size="sm"
+                                className="capitalize"
+                              >
+                                {granularity}
+                              </Button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+
+                      {compareMode === 'text' && showOptions && (
+                        <div className="px-4 py-2 border-b border-border flex flex-wrap items-center gap-x-6 gap-y-2">
+                          {comparisonOptionLabels.map(([option, label]) => (
+                            <label key={option} className="flex items-center space-x-2 text-sm text-muted-foreground cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={!!comparisonOptions[option]}
+                                onChange={(e) => setComparisonOptions(prev => ({ ...prev, [option]: e.target.checked }))}
+                                className="accent-primary"
+                              />
+                              <span>{label}</span>
+                            </label>
+                          ))}
+                        </div>
+                      )}
+
+                      {compareMode === 'text' && (
+                        <div className="px-4 py-2 border-b border-border flex items-center justify-between">
+                          <div className="text-sm text-muted-foreground">
+                            <span className="text-green-400">{diffStats.added} added</span>
+                            {' · '}
+                            <span className="text-red-400">{diffStats.removed} removed</span>
+                            {' · '}
+                            <span className="text-yellow-400">{diffStats.modified} modified</span>
+                            {' · '}
+                            <span>{diffStats.hunks} hunk{diffStats.hunks === 1 ? '' : 's'}</span>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            {isComputing && <span className="text-sm text-muted-foreground">Comparing…</span>}
+                            <span className="text-sm text-muted-foreground">
+                              {changeBlocks.length === 0
+                                ? 'No changes'
+                                : `Change ${activeChange === -1 ? '–' : activeChange + 1} of ${changeBlocks.length}`}
+                            </span>
+                            <Button
+                              onClick={() => goToChange(-1)}
+                              variant="ghost"
+                              size="sm"
+                              disabled={changeBlocks.length === 0}
+                              title="Previous change (Alt+↑)"
+                            >
+                              <ChevronUp size={16} />
+                            </Button>
+                            <Button
+                              onClick={() => goToChange(1)}
+                              variant="ghost"
+                              size="sm"
+                              disabled={changeBlocks.length === 0}
+                              title="Next change (Alt+↓)"
+                            >
+                              <ChevronDown size={16} />
+                            </Button>
+                            {viewMode === 'split' && (
+                              <Button
+                                onClick={() => setSyncScroll(!syncScroll)}
+                                variant={syncScroll ? 'secondary' : 'ghost'}
+                                size="sm"
+                                title="Synchronize scrolling of both panes"
+                              >
+                                <Link2 size={16} className="mr-2" />
+                                Sync Scroll
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      )}
+
+                      <div className="flex-1 min-h-0 flex">
+                        <div className="flex-1 min-w-0">
+                          {compareMode === 'table' ? (
+                            tableDiff ? (
+                              <TableDiffView diff={tableDiff} keyColumn={activeTableKey || undefined} showUnchanged={showUnchanged} />
+                            ) : (
+                              <div className="p-4 text-sm text-muted-foreground">Both panes must contain CSV or TSV with a header row to compare as tables.</div>
+                            )
+                          ) : compareMode === 'json' ? (
+                            jsonDiff ? (
+                              <JsonDiffView root={jsonDiff} showUnchanged={showUnchanged} />
+                            ) : (
+                              <div className="p-4 text-sm text-muted-foreground">Both panes must contain valid JSON to compare structurally.</div>
+                            )
+                          ) : viewMode === 'unified' ? (
+                            unifiedItems.length === 0 ? (
+                              <div className="h-full bg-muted/5 p-4 text-sm text-muted-foreground">No differences</div>
+                            ) : (
+                              <VirtualRows
+                                count={unifiedItems.length}
+                                rowHeight={ROW_HEIGHT}
+                                renderRow={renderUnifiedRow}
+                                scrollRef={unifiedPaneRef}
+                                className="h-full bg-muted/5"
+                              />
+                            )
+                          ) : (
+                            <PanelGroup direction="horizontal">
+                              <Panel defaultSize={50} minSize={25}>
+                                <div className="h-full border-r border-border">
+                                  <div className="p-4 border-b border-border">
+                                    <h3 className="text-foreground font-medium">Original</h3>
+                                  </div>
+                                  <VirtualRows
+                                    count={diff.left.length}
+                                    rowHeight={ROW_HEIGHT}
+                                    renderRow={(index) => renderDiffLine(diff.left[index], 'left', index)}
+                                    scrollRef={leftPaneRef}
+                                    onScroll={handlePaneScroll}
+                                    className="h-[calc(100%-60px)] bg-muted/5"
+                                  />
+                                </div>
+                              </Panel>
+
+                              <PanelResizeHandle className="w-2 bg-border hover:bg-border/80 transition-colors" />
+
+                              <Panel defaultSize={50} minSize={25}>
+                                <div className="h-full">
+                                  <div className="p-4 border-b border-border">
+                                    <h3 className="text-foreground font-medium">Modified</h3>
+                                  </div>
+                                  <VirtualRows
+                                    count={diff.right.length}
+                                    rowHeight={ROW_HEIGHT}
+                                    renderRow={(index) => renderDiffLine(diff.right[index], 'right', index)}
+                                    scrollRef={rightPaneRef}
+                                    onScroll={handlePaneScroll}
+                                    className="h-[calc(100%-60px)] bg-muted/5"
+                                  />
+                                </div>
+                              </Panel>
+                            </PanelGroup>
+                          )}
+                        </div>
+                        {compareMode === 'text' && (
+                          <DiffOverviewRuler
+                            blocks={changeBlocks}
+                            totalRows={totalRows}
+                            activeIndex={activeChange}
+                            onSelect={scrollToChange}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  </Panel>
+                </>
+              )}
+            </PanelGroup>
+          </div>
+        </>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { DiffChangeBlock } from '../types';
+
+interface DiffOverviewRulerProps {
+  blocks: DiffChangeBlock[];
+  totalRows: number;
+  activeIndex: number;
+  onSelect: (index: number) => void;
+}
+
+const markerColors: Record<DiffChangeBlock['kind'], string> = {
+  added: 'bg-green-500',
+  removed: 'bg-red-500',
+  modified: 'bg-yellow-500',
+};
+
+export function DiffOverviewRuler({ blocks, totalRows, activeIndex, onSelect }: DiffOverviewRulerProps) {
+  return (
+    <div className="relative w-3 h-full shrink-0 bg-muted/20 border-l border-border" title="Overview of changes">
+      {totalRows > 0 && blocks.map((block, index) => (
+        <button
+          key={`${block.start}-${block.end}`}
+          onClick={() => onSelect(index)}
+          title={`Change ${index + 1} of ${blocks.length} (${block.kind})`}
+          className={`absolute left-0.5 right-0.5 rounded-sm ${markerColors[block.kind]} ${index === activeIndex ? 'opacity-100 ring-1 ring-foreground' : 'opacity-60 hover:opacity-100'}`}
+          style={{
+            top: `${(block.start / totalRows) * 100}%`,
+            height: `max(3px, ${((block.end - block.start + 1) / totalRows) * 100}%)`,
+          }}
+        />
+      ))}
+    </div>
+  );
+}
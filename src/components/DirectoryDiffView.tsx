@@ -0,0 +1,105 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, File, Folder } from 'lucide-react';
+import { buildFileTree } from '@/utils/fileUtils';
+import { DirectoryDiffEntry, FileCompareStatus, FileTreeNode } from '../types';
+
+interface DirectoryDiffViewProps {
+  leftName: string;
+  rightName: string;
+  entries: DirectoryDiffEntry[];
+  selectedPath: string | null;
+  onSelect: (entry: DirectoryDiffEntry) => void;
+}
+
+const statusStyles: Record<FileCompareStatus, string> = {
+  added: 'bg-green-500/20 text-green-400',
+  removed: 'bg-red-500/20 text-red-400',
+  modified: 'bg-yellow-500/20 text-yellow-400',
+  unchanged: 'bg-muted text-muted-foreground',
+};
+
+export default function DirectoryDiffView({ leftName, rightName, entries, selectedPath, onSelect }: DirectoryDiffViewProps) {
+  const [collapsedPaths, setCollapsedPaths] = useState<Set<string>>(new Set());
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const tree = useMemo(
+    () => buildFileTree(showUnchanged ? entries : entries.filter(entry => entry.status !== 'unchanged')),
+    [entries, showUnchanged]
+  );
+  const entriesByPath = useMemo(() => new Map(entries.map(entry => [entry.path, entry])), [entries]);
+  const countByStatus = (status: FileCompareStatus) => entries.filter(entry => entry.status === status).length;
+
+  const togglePath = (path: string) => {
+    setCollapsedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+    const isFolder = !!node.children;
+    const isCollapsed = collapsedPaths.has(node.path);
+    const entry = entriesByPath.get(node.path);
+
+    return (
+      <div key={node.path}>
+        <button
+          onClick={() => (isFolder ? togglePath(node.path) : entry && onSelect(entry))}
+          className={`w-full flex items-center space-x-2 py-1 pr-4 text-left text-sm hover:bg-muted/40 ${selectedPath === node.path ? 'bg-muted/60' : ''}`}
+          style={{ paddingLeft: 16 + depth * 20 }}
+          title={node.path}
+        >
+          {isFolder ? (
+            isCollapsed ? <ChevronRight size={14} className="text-muted-foreground" /> : <ChevronDown size={14} className="text-muted-foreground" />
+          ) : (
+            <span className="w-[14px]" />
+          )}
+          {isFolder ? <Folder size={14} className="text-blue-400" /> : <File size={14} className="text-muted-foreground" />}
+          <span className="flex-1 truncate font-mono text-foreground">{node.name}</span>
+          {(!isFolder || node.status !== 'unchanged') && (
+            <span className={`px-2 rounded-full text-xs ${statusStyles[node.status]}`}>{node.status}</span>
+          )}
+        </button>
+        {isFolder && !isCollapsed && node.children!.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-2 border-b border-border flex items-center justify-between text-sm">
+        <div className="text-muted-foreground">
+          <span className="font-mono text-foreground">{leftName}</span>
+          <span className="mx-2">→</span>
+          <span className="font-mono text-foreground">{rightName}</span>
+          <span className="ml-4 text-green-400">{countByStatus('added')} added</span>
+          {' · '}
+          <span className="text-red-400">{countByStatus('removed')} removed</span>
+          {' · '}
+          <span className="text-yellow-400">{countByStatus('modified')} modified</span>
+          {' · '}
+          <span>{countByStatus('unchanged')} unchanged</span>
+        </div>
+        <label className="flex items-center space-x-2 text-muted-foreground cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showUnchanged}
+            onChange={(e) => setShowUnchanged(e.target.checked)}
+            className="accent-primary"
+          />
+          <span>Show unchanged</span>
+        </label>
+      </div>
+      <div className="flex-1 overflow-auto bg-muted/5 py-1">
+        {tree.length === 0 ? (
+          <div className="px-4 py-2 text-sm text-muted-foreground">The folders have identical contents</div>
+        ) : tree.map(node => renderNode(node, 0))}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Download, FileImage, FileText, File } from "lucide-react"
+import { Download, FileImage, FileText, File, FileCode } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import {
   DropdownMenu,
@@ -8,13 +8,20 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
+import { ExportFormat, TextExportFormat } from "@/types"
 
-interface ExportMenuProps {
-  onExport: (format: 'png' | 'jpg' | 'pdf' | 'html') => void;
+export interface TextExportOption<T extends TextExportFormat> {
+  format: T;
+  label: string;
+}
+
+interface ExportMenuProps<T extends TextExportFormat = never> {
+  onExport: (format: Exclude<ExportFormat, TextExportFormat> | NoInfer<T>) => void;
   disabled?: boolean;
+  textFormats?: TextExportOption<T>[];
 }
 
-export function ExportMenu({ onExport, disabled = false }: ExportMenuProps) {
+export function ExportMenu<T extends TextExportFormat = never>({ onExport, disabled = false, textFormats = [] }: ExportMenuProps<T>) {
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
@@ -48,6 +55,18 @@ export function ExportMenu({ onExport, disabled = false }: ExportMenuProps) {
           <FileText className="mr-2 h-4 w-4" />
           HTML
         </DropdownMenuItem>
+        {textFormats.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Export as Text</DropdownMenuLabel>
+            {textFormats.map(option => (
+              <DropdownMenuItem key={option.format} onClick={() => onExport(option.format)}>
+                <FileCode className="mr-2 h-4 w-4" />
+                {option.label}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   )
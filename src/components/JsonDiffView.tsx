@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { collectJsonChanges } from '@/utils/jsonDiffUtils';
+import { JsonDiffNode } from '../types';
+
+interface JsonDiffViewProps {
+  root: JsonDiffNode;
+  showUnchanged: boolean;
+}
+
+const formatJsonValue = (value: unknown): string => {
+  if (value === undefined) return '';
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.substring(0, 80)}...` : text;
+};
+
+const changeStyles: Record<JsonDiffNode['change'], { badge: string; row: string }> = {
+  added: { badge: 'bg-green-500/20 text-green-400', row: 'bg-green-500/10 border-l-2 border-green-500' },
+  removed: { badge: 'bg-red-500/20 text-red-400', row: 'bg-red-500/10 border-l-2 border-red-500' },
+  changed: { badge: 'bg-yellow-500/20 text-yellow-400', row: 'bg-yellow-500/5 border-l-2 border-yellow-500' },
+  unchanged: { badge: 'bg-muted text-muted-foreground', row: 'border-l-2 border-transparent' },
+};
+
+export default function JsonDiffView({ root, showUnchanged }: JsonDiffViewProps) {
+  const [collapsedPaths, setCollapsedPaths] = useState<Set<string>>(new Set());
+  const changes = collectJsonChanges(root);
+
+  const togglePath = (path: string) => {
+    setCollapsedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const renderValue = (node: JsonDiffNode) => {
+    if (node.children) {
+      if (node.change === 'unchanged') return null;
+      const count = collectJsonChanges(node).length;
+      return <span className="text-muted-foreground">{count} change{count === 1 ? '' : 's'}</span>;
+    }
+
+    switch (node.change) {
+      case 'added':
+        return <span className="text-green-400">{formatJsonValue(node.newValue)}</span>;
+      case 'removed':
+        return <span className="text-red-400 line-through">{formatJsonValue(node.oldValue)}</span>;
+      case 'changed':
+        return (
+          <span>
+            <span className="text-red-400 line-through">{formatJsonValue(node.oldValue)}</span>
+            <span className="text-muted-foreground mx-2">→</span>
+            <span className="text-green-400">{formatJsonValue(node.newValue)}</span>
+          </span>
+        );
+      default:
+        return <span className="text-muted-foreground">{formatJsonValue(node.newValue)}</span>;
+    }
+  };
+
+  const renderNode = (node: JsonDiffNode, depth: number): React.ReactNode => {
+    if (!showUnchanged && node.change === 'unchanged' && depth > 0) return null;
+
+    const isCollapsed = collapsedPaths.has(node.path);
+    const styles = changeStyles[node.change];
+
+    return (
+      <div key={node.path}>
+        <div
+          className={`flex items-center space-x-2 py-1 pr-4 font-mono text-sm ${styles.row}`}
+          style={{ paddingLeft: 16 + depth * 20 }}
+          title={node.path}
+        >
+          {node.children && node.children.length > 0 ? (
+            <button onClick={() => togglePath(node.path)} className="text-muted-foreground hover:text-foreground">
+              {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+            </button>
+          ) : (
+            <span className="w-[14px]" />
+          )}
+          <span className="text-foreground font-medium">{node.key}</span>
+          <span className={`px-2 rounded-full text-xs ${styles.badge}`}>{node.change}</span>
+          <span className="flex-1 truncate">{renderValue(node)}</span>
+          <span className="text-xs text-muted-foreground">{node.path}</span>
+        </div>
+        {!isCollapsed && node.children?.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full overflow-auto bg-muted/5">
+      <div className="px-4 py-2 border-b border-border text-sm text-muted-foreground">
+        {changes.length === 0 ? 'The documents are semantically equal' : (
+          <>
+            <span className="text-green-400">{changes.filter(node => node.change === 'added').length} added</span>
+            {' · '}
+            <span className="text-red-400">{changes.filter(node => node.change === 'removed').length} removed</span>
+            {' · '}
+            <span className="text-yellow-400">{changes.filter(node => node.change === 'changed').length} changed</span>
+          </>
+        )}
+      </div>
+      {renderNode(root, 0)}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { KeyboardEvent, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { appendJsonPointer } from '@/utils/jsonDiffUtils';
+import { getNumberPrecisionWarning, isJsonNumberLiteral } from '@/utils/jsonNumberUtils';
+import { addJsonChild, convertJsonValue, getJsonValueType, removeJsonValue, renameJsonKey, setJsonValue } from '@/utils/jsonEditUtils';
+import { JsonValueType } from '../types';
+
+const valueTypes: JsonValueType[] = ['object', 'array', 'string', 'number', 'boolean', 'null'];
+
+const inputClassName = 'w-full bg-background border border-border rounded-md px-2 py-1 font-mono text-sm text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring';
+
+interface JsonNodeEditorProps {
+  name: string;
+  path: string;
+  value: unknown;
+  // Original text of a number `value` only approximates; edited from instead of the rounded value.
+  numberLiteral?: string;
+  // Type of the containing value, or null for the document root.
+  parentType: 'object' | 'array' | null;
+  // Applies an edit to the whole document and selects `selectPath` afterwards; returns an error message if it failed.
+  // `numberLiteral` is the exact text of a number the edit puts at `selectPath` that JavaScript can only approximate.
+  onEdit: (edit: (document: unknown) => unknown, selectPath: string, numberLiteral?: string) => string | null;
+}
+
+/**
+ * Inline editor for one value of the graph. Drafts are committed on Enter or
+ * blur; mount it with `key={path}` so drafts reset when the selection moves.
+ */
+export function JsonNodeEditor({ name, path, value, numberLiteral, parentType, onEdit }: JsonNodeEditorProps) {
+  const type = getJsonValueType(value);
+  const parentPath = path.slice(0, path.lastIndexOf('/'));
+  const [keyDraft, setKeyDraft] = useState(name);
+  const [valueDraft, setValueDraft] = useState(type === 'string' ? (value as string) : numberLiteral ?? String(value));
+  const [newKey, setNewKey] = useState('');
+  const [error, setError] = useState('');
+
+  const commit = (edit: (document: unknown) => unknown, selectPath = path, literal?: string) => {
+    setError(onEdit(edit, selectPath, literal) ?? '');
+  };
+
+  const commitKey = () => {
+    if (keyDraft === name) return;
+    commit(document => renameJsonKey(document, path, keyDraft), appendJsonPointer(parentPath, keyDraft));
+  };
+
+  const commitValue = () => {
+    if (type === 'string') {
+      if (valueDraft !== value) commit(document => setJsonValue(document, path, valueDraft));
+      return;
+    }
+    const draft = valueDraft.trim();
+    const number = Number(draft);
+    // Digits beyond what a JavaScript number holds are kept by writing the typed text.
+    const literal = isJsonNumberLiteral(draft) && getNumberPrecisionWarning(draft) !== null ? draft : undefined;
+    if (draft === '' || (!Number.isFinite(number) && literal === undefined)) {
+      setError('Enter a valid number');
+      return;
+    }
+    const changed = numberLiteral !== undefined ? draft !== numberLiteral : number !== value || literal !== undefined;
+    if (changed) commit(document => setJsonValue(document, path, number), path, literal);
+  };
+
+  const handleAddChild = () => {
+    if (type === 'array') {
+      commit(document => addJsonChild(document, path, null), appendJsonPointer(path, (value as unknown[]).length));
+      return;
+    }
+    commit(document => addJsonChild(document, path, null, newKey), appendJsonPointer(path, newKey));
+    setNewKey('');
+  };
+
+  const commitOnEnter = (action: () => void) => (e: KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {parentType === 'object' && (
+        <div>
+          <h4 className="text-foreground font-medium mb-2">Key</h4>
+          <input
+            value={keyDraft}
+            onChange={(e) => setKeyDraft(e.target.value)}
+            onBlur={commitKey}
+            onKeyDown={commitOnEnter(commitKey)}
+            className={inputClassName}
+          />
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-foreground font-medium mb-2">Type</h4>
+        <select
+          value={type}
+          onChange={(e) => commit(document => setJsonValue(document, path, convertJsonValue(value, e.target.value as JsonValueType)))}
+          className="bg-background border border-border rounded-md px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+        >
+          {valueTypes.map(valueType => (
+            <option key={valueType} value={valueType}>{valueType}</option>
+          ))}
+        </select>
+      </div>
+
+      {(type === 'string' || type === 'number') && (
+        <div>
+          <h4 className="text-foreground font-medium mb-2">Edit Value</h4>
+          {type === 'string' ? (
+            <textarea
+              value={valueDraft}
+              onChange={(e) => setValueDraft(e.target.value)}
+              onBlur={commitValue}
+              onKeyDown={commitOnEnter(commitValue)}
+              rows={3}
+              className={`${inputClassName} resize-y`}
+            />
+          ) : (
+            <input
+              type="number"
+              value={valueDraft}
+              onChange={(e) => setValueDraft(e.target.value)}
+              onBlur={commitValue}
+              onKeyDown={commitOnEnter(commitValue)}
+              className={inputClassName}
+            />
+          )}
+        </div>
+      )}
+
+      {type === 'boolean' && (
+        <div>
+          <h4 className="text-foreground font-medium mb-2">Edit Value</h4>
+          <div className="flex space-x-1">
+            {[true, false].map(option => (
+              <Button
+                key={String(option)}
+                onClick={() => option !== value && commit(document => setJsonValue(document, path, option))}
+                variant={value === option ? 'secondary' : 'ghost'}
+                size="sm"
+              >
+                {String(option)}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(type === 'object' || type === 'array') && (
+        <div className="flex items-center space-x-2">
+          {type === 'object' && (
+            <input
+              value={newKey}
+              onChange={(e) => setNewKey(e.target.value)}
+              onKeyDown={commitOnEnter(handleAddChild)}
+              placeholder="New property name"
+              className={inputClassName}
+            />
+          )}
+          <Button
+            onClick={handleAddChild}
+            variant="outline"
+            size="sm"
+            disabled={type === 'object' && !newKey}
+          >
+            <Plus size={16} className="mr-2" />
+            {type === 'object' ? 'Add' : 'Add Item'}
+          </Button>
+        </div>
+      )}
+
+      {parentType && (
+        <Button
+          onClick={() => commit(document => removeJsonValue(document, path), parentPath)}
+          variant="outline"
+          size="sm"
+          className="bg-red-500/10 text-red-400 border-red-500/30 hover:bg-red-500/20"
+        >
+          <Trash2 size={16} className="mr-2" />
+          Delete {parentType === 'array' ? 'Item' : 'Property'}
+        </Button>
+      )}
+
+      {error && (
+        <div className="p-3 rounded-lg border text-sm bg-red-500/10 border-red-500/30 text-red-400">{error}</div>
+      )}
+    </div>
+  );
+}
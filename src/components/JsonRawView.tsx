@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+import { VirtualRows } from './VirtualRows';
+import { highlightLine, syntaxTokenClasses } from '@/utils/syntaxUtils';
+import { JsonLine } from '../types';
+
+interface JsonRawViewProps {
+  lines: JsonLine[];
+  selectedPath: string | null;
+  onSelect: (path: string) => void;
+}
+
+const ROW_HEIGHT = 20;
+
+const isWithin = (path: string, ancestor: string) => path === ancestor || path.startsWith(`${ancestor}/`);
+
+/** Formatted, syntax-highlighted JSON; clicking a line selects its value and the selection's lines are highlighted. */
+export default function JsonRawView({ lines, selectedPath, onSelect }: JsonRawViewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const scrolledToRef = useRef<string | null>(null);
+  const gutterWidth = String(lines.length).length;
+
+  // Bring a selection made elsewhere into view, once per selection.
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || selectedPath === null || scrolledToRef.current === selectedPath) return;
+    const index = lines.findIndex(line => line.path === selectedPath);
+    if (index === -1) return;
+
+    scrolledToRef.current = selectedPath;
+    const top = index * ROW_HEIGHT;
+    if (top < container.scrollTop || top + ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+      container.scrollTop = top - container.clientHeight / 3;
+    }
+  }, [lines, selectedPath]);
+
+  const renderRow = (index: number) => {
+    const line = lines[index];
+    const isSelected = selectedPath !== null && isWithin(line.path, selectedPath);
+
+    return (
+      <div
+        key={index}
+        onClick={() => onSelect(line.path)}
+        className={`flex font-mono text-sm whitespace-pre cursor-pointer ${isSelected ? 'bg-primary/10' : 'hover:bg-muted/30'}`}
+        style={{ height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px` }}
+      >
+        <span className="px-3 text-right text-muted-foreground select-none" style={{ minWidth: `${gutterWidth + 2}ch` }}>
+          {index + 1}
+        </span>
+        <span className="pr-4">
+          {highlightLine(line.text, 'json').map((span, spanIndex) => (
+            <span key={spanIndex} className={syntaxTokenClasses[span.kind]}>{span.text}</span>
+          ))}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <VirtualRows
+      count={lines.length}
+      rowHeight={ROW_HEIGHT}
+      renderRow={renderRow}
+      scrollRef={scrollRef}
+      className="h-full bg-muted/5"
+    />
+  );
+}
@@ -0,0 +1,147 @@
+import { useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Search } from 'lucide-react';
+import { VirtualRows } from './VirtualRows';
+import { compareJsonValues, formatJsonPreview, jsonValueClasses, VALUE_COLUMN } from '@/utils/jsonViewUtils';
+import { appendJsonPointer } from '@/utils/jsonDiffUtils';
+import { getJsonValueType } from '@/utils/jsonEditUtils';
+import { JsonTable } from '../types';
+
+interface JsonTableViewProps {
+  table: JsonTable;
+  // Original text of numbers JavaScript can't hold exactly, shown instead of the rounded value.
+  numberLiterals: Map<string, string>;
+  selectedPath: string | null;
+  onSelect: (path: string) => void;
+}
+
+const ROW_HEIGHT = 28;
+const INDEX_WIDTH = 64;
+const COLUMN_WIDTH = 180;
+
+const getCellText = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value) ?? '');
+
+/**
+ * Grid of an array's items with one column per key. Sorting and the row
+ * filter are local to the view; mount it with `key={table.path}` so they
+ * reset when another array is shown.
+ */
+export default function JsonTableView({ table, numberLiterals, selectedPath, onSelect }: JsonTableViewProps) {
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<{ column: number; direction: 'asc' | 'desc' } | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+
+  const rows = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    const filtered = needle
+      ? table.rows.filter(row => row.cells.some(cell => cell !== undefined && getCellText(cell).toLowerCase().includes(needle)))
+      : table.rows;
+    if (!sort) return filtered;
+
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    return [...filtered].sort((a, b) => {
+      const left = a.cells[sort.column];
+      const right = b.cells[sort.column];
+      // Missing values stay at the bottom in both directions.
+      if (left === undefined || right === undefined) return compareJsonValues(left, right);
+      return compareJsonValues(left, right) * direction;
+    });
+  }, [table, filter, sort]);
+
+  const toggleSort = (column: number) => {
+    setSort(prev => {
+      if (prev?.column !== column) return { column, direction: 'asc' };
+      return prev.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const gridTemplateColumns = `${INDEX_WIDTH}px repeat(${table.columns.length}, ${COLUMN_WIDTH}px)`;
+
+  const renderRow = (index: number) => {
+    const row = rows[index];
+    const rowSelected = row.path === selectedPath;
+
+    return (
+      <div
+        key={row.path}
+        className={`grid border-b border-border/50 font-mono text-sm ${rowSelected ? 'bg-primary/15' : 'hover:bg-muted/30'}`}
+        style={{ gridTemplateColumns, height: ROW_HEIGHT }}
+      >
+        <button
+          onClick={() => onSelect(row.path)}
+          className="px-3 text-left text-muted-foreground truncate"
+          title={row.path}
+        >
+          {row.path.slice(row.path.lastIndexOf('/') + 1)}
+        </button>
+        {row.cells.map((cell, column) => {
+          if (cell === undefined) return <span key={column} />;
+          const cellPath = table.columns[column] === VALUE_COLUMN ? row.path : appendJsonPointer(row.path, table.columns[column]);
+          const type = getJsonValueType(cell);
+          const text = numberLiterals.get(cellPath) ?? (type === 'string' ? (cell as string) : formatJsonPreview(cell, type));
+          return (
+            <button
+              key={column}
+              onClick={() => onSelect(cellPath)}
+              className={`px-3 text-left truncate ${jsonValueClasses[type]} ${cellPath === selectedPath && !rowSelected ? 'bg-primary/15' : ''}`}
+              title={numberLiterals.get(cellPath) ?? getCellText(cell)}
+            >
+              {text}
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-muted/5">
+      <div className="px-4 py-2 border-b border-border flex items-center space-x-4 text-sm text-muted-foreground">
+        <span className="whitespace-nowrap">
+          <span className="font-mono text-foreground">{table.path || '/'}</span>
+          {' · '}
+          {rows.length === table.rows.length ? `${table.rows.length} rows` : `${rows.length} of ${table.rows.length} rows`}
+          {' · '}
+          {table.columns.length} column{table.columns.length === 1 ? '' : 's'}
+        </span>
+        <div className="flex-1 flex items-center space-x-2 bg-background border border-border rounded-md px-2 focus-within:ring-2 focus-within:ring-ring">
+          <Search size={14} className="text-muted-foreground" />
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter rows..."
+            className="flex-1 bg-transparent py-1 text-sm text-foreground placeholder-muted-foreground focus:outline-none"
+          />
+        </div>
+      </div>
+
+      <div ref={headerRef} className="overflow-hidden border-b border-border">
+        <div className="grid w-max text-xs text-muted-foreground" style={{ gridTemplateColumns }}>
+          <span className="px-3 py-1">#</span>
+          {table.columns.map((column, index) => (
+            <button
+              key={column}
+              onClick={() => toggleSort(index)}
+              className="px-3 py-1 flex items-center space-x-1 text-left font-mono hover:text-foreground"
+              title={`Sort by ${column}`}
+            >
+              <span className="truncate">{column}</span>
+              {sort?.column === index && (sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <VirtualRows
+        count={rows.length}
+        rowHeight={ROW_HEIGHT}
+        renderRow={renderRow}
+        scrollRef={scrollRef}
+        onScroll={(e) => {
+          if (headerRef.current) headerRef.current.scrollLeft = e.currentTarget.scrollLeft;
+        }}
+        className="flex-1"
+      />
+    </div>
+  );
+}
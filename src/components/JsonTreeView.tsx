@@ -0,0 +1,121 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { VirtualRows } from './VirtualRows';
+import { syntaxTokenClasses } from '@/utils/syntaxUtils';
+import { getNumberPrecisionWarning } from '@/utils/jsonNumberUtils';
+import { formatJsonPreview, jsonValueClasses } from '@/utils/jsonViewUtils';
+import { JsonNode } from '../types';
+
+interface JsonTreeViewProps {
+  root: JsonNode;
+  selectedPath: string | null;
+  // Search hits and schema violations, highlighted like in the graph.
+  matchPaths: Set<string>;
+  invalidPaths: Set<string>;
+  // Original text of numbers JavaScript can't hold exactly, shown instead of the rounded value.
+  numberLiterals: Map<string, string>;
+  // Children revealed per "Show more" click.
+  pageSize: number;
+  onSelect: (path: string) => void;
+  onToggle: (path: string) => void;
+  onShowMore: (path: string) => void;
+}
+
+type TreeRow = { node: JsonNode; depth: number; showMore: boolean };
+
+const ROW_HEIGHT = 26;
+
+/** Collapsible indented view of the document; expansion and paging are shared with the graph. */
+export default function JsonTreeView({ root, selectedPath, matchPaths, invalidPaths, numberLiterals, pageSize, onSelect, onToggle, onShowMore }: JsonTreeViewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const scrolledToRef = useRef<string | null>(null);
+
+  const rows = useMemo(() => {
+    const result: TreeRow[] = [];
+    const visit = (node: JsonNode, depth: number) => {
+      result.push({ node, depth, showMore: false });
+      if (!node.children) return;
+      node.children.forEach(child => visit(child, depth + 1));
+      if (node.children.length < node.childCount) result.push({ node, depth: depth + 1, showMore: true });
+    };
+    visit(root, 0);
+    return result;
+  }, [root]);
+
+  // Bring a selection made elsewhere into view, once per selection.
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || selectedPath === null || scrolledToRef.current === selectedPath) return;
+    const index = rows.findIndex(row => !row.showMore && row.node.path === selectedPath);
+    if (index === -1) return;
+
+    scrolledToRef.current = selectedPath;
+    const top = index * ROW_HEIGHT;
+    if (top < container.scrollTop || top + ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+      container.scrollTop = top - container.clientHeight / 2;
+    }
+  }, [rows, selectedPath]);
+
+  const renderRow = (index: number) => {
+    const { node, depth, showMore } = rows[index];
+    const indent = 16 + depth * 20;
+
+    if (showMore) {
+      const remaining = node.childCount - (node.children?.length ?? 0);
+      return (
+        <div key={`${node.path}:more`} className="flex items-center text-sm" style={{ height: ROW_HEIGHT, paddingLeft: indent + 18 }}>
+          <button onClick={() => onShowMore(node.path)} className="text-primary font-medium hover:underline">
+            Showing {node.children?.length} of {node.childCount} · Show {Math.min(remaining, pageSize)} more
+          </button>
+        </div>
+      );
+    }
+
+    const isSelected = node.path === selectedPath;
+    const hasChildren = node.childCount > 0;
+    const numberLiteral = numberLiterals.get(node.path);
+
+    return (
+      <div
+        key={node.path}
+        onClick={() => onSelect(node.path)}
+        className={`flex items-center space-x-2 pr-4 font-mono text-sm cursor-pointer whitespace-nowrap ${
+          isSelected ? 'bg-primary/15' : matchPaths.has(node.path) ? 'bg-yellow-500/10' : 'hover:bg-muted/30'
+        }`}
+        style={{ height: ROW_HEIGHT, paddingLeft: indent }}
+        title={node.path || '/'}
+      >
+        {hasChildren ? (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggle(node.path);
+            }}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            {node.isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          </button>
+        ) : (
+          <span className="w-[14px]" />
+        )}
+        <span className={syntaxTokenClasses.property}>{node.key}</span>
+        <span className="text-muted-foreground">:</span>
+        <span className={jsonValueClasses[node.type]}>{numberLiteral ?? formatJsonPreview(node.value, node.type)}</span>
+        {numberLiteral !== undefined && (
+          <span className="w-2 h-2 rounded-full bg-amber-500" title={getNumberPrecisionWarning(numberLiteral) ?? undefined} />
+        )}
+        {invalidPaths.has(node.path) && <span className="w-2 h-2 rounded-full bg-red-500" title="Schema violation" />}
+      </div>
+    );
+  };
+
+  return (
+    <VirtualRows
+      count={rows.length}
+      rowHeight={ROW_HEIGHT}
+      renderRow={renderRow}
+      scrollRef={scrollRef}
+      className="h-full bg-muted/5"
+    />
+  );
+}
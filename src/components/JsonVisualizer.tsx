@@ -1,12 +1,31 @@
 import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
-import { Copy, FileText, ZoomIn, ZoomOut, RotateCcw, ExternalLink, Image, Play, Volume2, ChevronRight, ChevronDown, X, Home } from 'lucide-react';
+import { AlertTriangle, Copy, FileText, ZoomIn, ZoomOut, RotateCcw, ExternalLink, Image, Play, Volume2, ChevronRight, ChevronDown, ChevronUp, X, Home, Search, Network, ArrowRight, ArrowDown, Undo2, Redo2, Wrench, Crosshair, Download, Replace, ShieldCheck, Braces, ListTree, Table, Code } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { ExportMenu } from './ExportMenu';
-import { exportAsImage, exportAsPDF, exportAsHTML } from '@/utils/exportUtils';
+import { JsonNodeEditor } from './JsonNodeEditor';
+import JsonTreeView from './JsonTreeView';
+import JsonTableView from './JsonTableView';
+import JsonRawView from './JsonRawView';
+import { exportAsImage, exportAsPDF, exportAsHTML, exportAsText } from '@/utils/exportUtils';
 import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
+import { appendJsonPointer } from '@/utils/jsonDiffUtils';
+import { evaluateJsonPath, getAncestorPointers, parseJsonPointer, searchJson } from '@/utils/jsonPathUtils';
+import { evaluateJq } from '@/utils/jqUtils';
+import { computeTreeLayout } from '@/utils/treeLayoutUtils';
+import { useAnimatedLayout } from '@/hooks/useAnimatedLayout';
+import { useJsonParser } from '@/hooks/useJsonParser';
+import { findJsonError, repairJson } from '@/utils/jsonRepairUtils';
+import { dataFormats, getRoundedNumbers, parseDataAuto, stringifyDataFormat } from '@/utils/dataFormatUtils';
+import { inferJsonSchema, JsonSchema, validateJsonSchema } from '@/utils/jsonSchemaUtils';
+import { generateTypes, typeLanguages } from '@/utils/typeGenUtils';
+import { buildJsonNodeTree, findTablePath, formatJsonLines, getJsonTable } from '@/utils/jsonViewUtils';
+import { escapeJsonString, minifyJson, prettifyJson, removeEmptyValues, sortJsonKeys, unescapeJsonString } from '@/utils/jsonFormatUtils';
+import { getNumberPrecisionWarning, matchNumberLiterals, relocateNumberLiterals, stringifyJsonLossless } from '@/utils/jsonNumberUtils';
+import { DataFormat, JsonIndent, JsonQueryLanguage, JsonSchemaViolation, JsonSearchMode, JsonViewMode, TreeOrientation, TypeLanguage } from '../types';
 
 interface GraphNode {
+  // JSON Pointer of the value this node represents, so a node keeps its identity when the document is edited.
   id: string;
   key: string;
   value: any;
@@ -16,11 +35,140 @@ interface GraphNode {
   width: number;
   height: number;
   children: string[];
+  // Number of entries in an object or array; children only holds the materialized ones.
+  childCount: number;
   parent?: string;
   level: number;
   isExpanded: boolean;
 }
 
+// Expanded containers materialize their children a page at a time.
+const CHILD_PAGE_SIZE = 100;
+
+// Nodes within this many graph units outside the viewport are still rendered so panning doesn't pop.
+const CULL_MARGIN = 300;
+
+const getChildLimit = (limits: Map<string, number>, path: string) => limits.get(path) ?? CHILD_PAGE_SIZE;
+
+// Reads the first few entries without copying every key of a very large object.
+const getFirstEntries = (value: unknown, count: number): Array<[string, unknown]> => {
+  if (Array.isArray(value)) return value.slice(0, count).map((item, index) => [`[${index}]`, item]);
+
+  const entries: Array<[string, unknown]> = [];
+  if (value === null || typeof value !== 'object') return entries;
+  for (const key in value) {
+    if (entries.length === count) break;
+    if (Object.prototype.hasOwnProperty.call(value, key)) entries.push([key, (value as Record<string, unknown>)[key]]);
+  }
+  return entries;
+};
+
+// The error marker mirrors the input text behind the textarea, which is too costly for huge inputs.
+const MAX_MARKED_INPUT = 200_000;
+
+// Oldest entries are dropped once the undo history grows past this.
+const MAX_HISTORY = 100;
+
+const NO_NUMBER_LITERALS = new Map<string, string>();
+
+// Beyond this many hits only the active one is revealed, so a broad query doesn't expand the whole document.
+const MAX_REVEALED_MATCHES = 100;
+
+// Expand All and Expand to Depth stop opening containers once the graph would show this many nodes.
+const MAX_EXPANDED_NODES = 2000;
+
+const expandDepthOptions = [1, 2, 3, 4, 5];
+
+const indentOptions: Array<[JsonIndent, string]> = [
+  [2, '2 spaces'],
+  [4, '4 spaces'],
+  ['tab', 'Tabs'],
+];
+
+const searchModeLabels: Array<[JsonSearchMode, string]> = [
+  ['text', 'Text'],
+  ['regex', 'Regex'],
+  ['jsonpath', 'JSONPath'],
+];
+
+const viewOptions: Array<[JsonViewMode, string, typeof Network]> = [
+  ['graph', 'Graph', Network],
+  ['tree', 'Tree', ListTree],
+  ['table', 'Table', Table],
+  ['raw', 'Raw', Code],
+];
+
+const orientationOptions: Array<[TreeOrientation, string, typeof ArrowRight]> = [
+  ['left-right', 'Left to right', ArrowRight],
+  ['top-bottom', 'Top to bottom', ArrowDown],
+];
+
+const queryLanguageLabels: Array<[JsonQueryLanguage, string]> = [
+  ['jq', 'jq'],
+  ['jsonpath', 'JSONPath'],
+];
+
+const schemaModeLabels: Array<['infer' | 'validate', string]> = [
+  ['infer', 'Infer'],
+  ['validate', 'Validate'],
+];
+
+/**
+ * Paths of the containers that expanding `depth` levels below the root
+ * opens, breadth first, stopping once about `maxNodes` nodes would be shown.
+ * Only children within each container's page limit are visited.
+ */
+const getContainerPaths = (value: unknown, depth: number, limits: Map<string, number>, maxNodes = MAX_EXPANDED_NODES): Set<string> => {
+  const paths = new Set<string>();
+  let shown = 1;
+  let level: Array<[unknown, string]> = [[value, '']];
+
+  for (let remaining = depth; remaining > 0 && level.length > 0; remaining--) {
+    const next: Array<[unknown, string]> = [];
+    for (const [current, pointer] of level) {
+      if (current === null || typeof current !== 'object') continue;
+      const entries = getFirstEntries(current, getChildLimit(limits, pointer));
+      if (entries.length === 0) continue;
+      if (shown + entries.length > maxNodes) return paths;
+
+      paths.add(pointer);
+      shown += entries.length;
+      entries.forEach(([key, child], index) => next.push([child, appendJsonPointer(pointer, Array.isArray(current) ? index : key)]));
+    }
+    level = next;
+  }
+  return paths;
+};
+
+/** Resolves a JSON Pointer, or returns undefined when nothing is there. */
+const getValueAtPointer = (value: unknown, pointer: string): unknown => {
+  let current = value;
+  for (const token of parseJsonPointer(pointer)) {
+    if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, token)) return undefined;
+    current = (current as Record<string, unknown>)[token];
+  }
+  return current;
+};
+
+/** Raises page limits along each pointer's ancestors so the node it points at gets materialized. */
+const revealInChildLimits = (value: unknown, pointers: string[], limits: Map<string, number>): Map<string, number> => {
+  const next = new Map(limits);
+  pointers.forEach(pointer => {
+    let current: unknown = value;
+    let path = '';
+    for (const token of parseJsonPointer(pointer)) {
+      if (current === null || typeof current !== 'object') break;
+      const index = Array.isArray(current) ? Number(token) : Object.keys(current).indexOf(token);
+      if (index >= getChildLimit(next, path)) {
+        next.set(path, Math.ceil((index + 1) / CHILD_PAGE_SIZE) * CHILD_PAGE_SIZE);
+      }
+      current = (current as Record<string, unknown>)[token];
+      path = appendJsonPointer(path, token);
+    }
+  });
+  return next;
+};
+
 interface GraphEdge {
   from: string;
   to: string;
@@ -30,12 +178,50 @@ interface GraphEdge {
 
 export default function JsonVisualizer() {
   const [jsonInput, setJsonInput] = useState('');
+  const [inputFormat, setInputFormat] = useState<DataFormat | 'auto'>('auto');
+  const [convertFormat, setConvertFormat] = useState<DataFormat>('yaml');
+  const [conversionError, setConversionError] = useState('');
+  const [indent, setIndent] = useState<JsonIndent>(2);
+  const [formatError, setFormatError] = useState('');
   const [zoom, setZoom] = useState(0.8);
   const [pan, setPan] = useState({ x: 50, y: 50 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchMode, setSearchMode] = useState<JsonSearchMode>('text');
+  const [activeMatch, setActiveMatch] = useState(0);
+  // The query the search last jumped to the first hit of.
+  const jumpedQueryRef = useRef<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [queryLanguage, setQueryLanguage] = useState<JsonQueryLanguage>('jq');
+  const [queryExpandedNodes, setQueryExpandedNodes] = useState<Set<string>>(new Set(['']));
+  // Which document the graph renders: the input itself or the query console's result.
+  const [graphSource, setGraphSource] = useState<'input' | 'query'>('input');
+  const [orientation, setOrientation] = useState<TreeOrientation>('left-right');
+  const [view, setView] = useState<JsonViewMode>('graph');
+  // Page limits per container path; containers without an entry show CHILD_PAGE_SIZE children.
+  const [childLimits, setChildLimits] = useState<Map<string, number>>(new Map());
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  // Set when stepping to a match; the viewport pans once the graph has been rebuilt with it visible.
+  const pendingPanRef = useRef<string | null>(null);
+  // Snapshots of jsonInput taken before each graph edit.
+  const [history, setHistory] = useState<{ past: string[]; future: string[] }>({ past: [], future: [] });
+  // Bumped on every edit, undo and redo so the node editor drops drafts of a value that changed under it.
+  const [revision, setRevision] = useState(0);
+  // An edit that selects a new node may put it past its container's page; once the edited text is parsed, the page is extended.
+  const pendingRevealRef = useRef<{ staleInput: unknown; path: string } | null>(null);
+  const [expandPathInput, setExpandPathInput] = useState('');
+  const [expandPathError, setExpandPathError] = useState('');
+  const [repairReport, setRepairReport] = useState<{ changes: string[]; valid: boolean } | null>(null);
+  const [inputScroll, setInputScroll] = useState({ top: 0, left: 0 });
+  const [showSchema, setShowSchema] = useState(false);
+  const [schemaMode, setSchemaMode] = useState<'infer' | 'validate'>('infer');
+  const [schemaInput, setSchemaInput] = useState('');
+  const [showTypes, setShowTypes] = useState(false);
+  const [typeLanguage, setTypeLanguage] = useState<TypeLanguage>('typescript');
+  const inputRef = useRef<HTMLTextAreaElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const exportRef = useRef<HTMLDivElement>(null);
@@ -62,7 +248,8 @@ export default function JsonVisualizer() {
   };
 
   const toggleNodeExpansion = useCallback((nodeId: string) => {
-    setExpandedNodes(prev => {
+    const setExpanded = graphSource === 'query' ? setQueryExpandedNodes : setExpandedNodes;
+    setExpanded(prev => {
       const newExpanded = new Set(prev);
       if (newExpanded.has(nodeId)) {
         newExpanded.delete(nodeId);
@@ -71,12 +258,16 @@ export default function JsonVisualizer() {
       }
       return newExpanded;
     });
-  }, []);
+  }, [graphSource]);
 
   const collapseAllNodes = useCallback(() => {
-    setExpandedNodes(new Set());
+    if (graphSource === 'query') {
+      setQueryExpandedNodes(new Set());
+    } else {
+      setExpandedNodes(new Set());
+    }
     setSelectedNode(null);
-  }, []);
+  }, [graphSource]);
 
   // Enhanced zoom functionality with reduced sensitivity
   const handleWheel = useCallback((e: WheelEvent) => {
@@ -162,20 +353,24 @@ export default function JsonVisualizer() {
     }
   }, [handleWheel, handleTouchStart, handleTouchMove, handleTouchEnd]);
 
-  const createGraph = (obj: any): { nodes: GraphNode[]; edges: GraphEdge[] } => {
+  const createGraph = useCallback((
+    source: { value: unknown } | null,
+    expanded: Set<string>
+  ): { nodes: GraphNode[]; edges: GraphEdge[]; nodeById: Map<string, GraphNode> } => {
     const nodes: GraphNode[] = [];
     const edges: GraphEdge[] = [];
-    let nodeId = 0;
+    const nodeById = new Map<string, GraphNode>();
 
-    const traverse = (value: any, key: string, parentId?: string, level: number = 0): string => {
-      const currentId = `node-${nodeId++}`;
+    const traverse = (value: any, key: string, currentId: string, parentId?: string, level: number = 0): string => {
       const type = Array.isArray(value) ? 'array' : 
                    value === null ? 'null' : 
                    typeof value;
 
-      const isExpanded = expandedNodes.has(currentId);
-      const hasChildren = (type === 'object' && value !== null && Object.keys(value).length > 0) || 
-                         (type === 'array' && value.length > 0);
+      const isExpanded = expanded.has(currentId);
+      const objectKeys = type === 'object' && value !== null ? Object.keys(value) : null;
+      const childCount = objectKeys ? objectKeys.length : type === 'array' ? value.length : 0;
+      const hasChildren = childCount > 0;
+      const childLimit = Math.min(childCount, getChildLimit(childLimits, currentId));
 
       const baseWidth = 220;
       const baseHeight = 100;
@@ -183,8 +378,7 @@ export default function JsonVisualizer() {
 
       // Show object/array keys when expanded
       if (hasChildren && isExpanded) {
-        const keys = type === 'object' ? Object.keys(value) : value.map((_: any, i: number) => `[${i}]`);
-        extraHeight = Math.min(keys.length * 25, 150);
+        extraHeight = Math.min(childCount * 25, 150) + (childLimit < childCount ? 24 : 0);
       }
 
       const node: GraphNode = {
@@ -197,78 +391,465 @@ export default function JsonVisualizer() {
         width: baseWidth,
         height: baseHeight + extraHeight,
         children: [],
+        childCount,
         parent: parentId,
         level,
         isExpanded
       };
 
       nodes.push(node);
+      nodeById.set(currentId, node);
 
-      if (parentId) {
+      if (parentId !== undefined) {
         edges.push({ 
           from: parentId, 
           to: currentId,
-          fromSide: 'right',
-          toSide: 'left'
+          fromSide: orientation === 'left-right' ? 'right' : 'bottom',
+          toSide: orientation === 'left-right' ? 'left' : 'top'
         });
-        const parentNode = nodes.find(n => n.id === parentId);
+        const parentNode = nodeById.get(parentId);
         if (parentNode) {
           parentNode.children.push(currentId);
         }
       }
 
       if (hasChildren && isExpanded) {
-        if (type === 'object' && value !== null) {
-          Object.entries(value).forEach(([childKey, childValue]) => {
-            traverse(childValue, childKey, currentId, level + 1);
-          });
-        } else if (type === 'array') {
-          value.forEach((item: any, index: number) => {
-            traverse(item, `[${index}]`, currentId, level + 1);
-          });
+        for (let index = 0; index < childLimit; index++) {
+          if (objectKeys) {
+            const childKey = objectKeys[index];
+            traverse(value[childKey], childKey, appendJsonPointer(currentId, childKey), currentId, level + 1);
+          } else {
+            traverse(value[index], `[${index}]`, appendJsonPointer(currentId, index), currentId, level + 1);
+          }
         }
       }
 
       return currentId;
     };
 
-    if (jsonInput.trim()) {
-      try {
-        const parsed = JSON.parse(jsonInput);
-        traverse(parsed, 'root', undefined, 0);
-      } catch {
-        // Invalid JSON
+    if (source) {
+      traverse(source.value, 'root', '', undefined, 0);
+    }
+
+    const positions = computeTreeLayout(nodes, orientation);
+    nodes.forEach(node => {
+      const position = positions.get(node.id);
+      if (position) {
+        node.x = position.x;
+        node.y = position.y;
       }
+    });
+
+    return { nodes, edges, nodeById };
+  }, [orientation, childLimits]);
+
+  const { parsed: parsedInput, error: parseError, format: parsedFormat, isParsing } = useJsonParser(jsonInput, inputFormat);
+  const parsedFormatLabel = dataFormats.find(({ format }) => format === parsedFormat)?.label ?? parsedFormat;
+
+  // Only strict JSON gets positioned diagnostics and repair; the other parsers report their own errors.
+  const diagnostic = useMemo(
+    () => (parseError && parsedFormat === 'json' ? findJsonError(jsonInput) : null),
+    [parseError, parsedFormat, jsonInput]
+  );
+
+  const queryResult = useMemo(() => {
+    if (!parsedInput || !query.trim()) return { text: '', result: null, numberLiterals: NO_NUMBER_LITERALS, count: 0, error: '' };
+    try {
+      const matches = queryLanguage === 'jq' ? null : evaluateJsonPath(parsedInput.value, query.trim());
+      const outputs = matches ? matches.map(match => match.value) : evaluateJq(parsedInput.value, query.trim());
+      // jq streams one value per output; JSONPath always yields a list of matches.
+      const graphValue = !matches && outputs.length === 1 ? outputs[0] : outputs;
+      // JSONPath matches keep their place in the input; jq computes new values, so theirs are matched by value.
+      const numberLiterals = matches
+        ? new Map(matches.flatMap((match, index) => relocateNumberLiterals(parsedInput.numberLiterals, match.pointer, `/${index}`)))
+        : matchNumberLiterals(graphValue, parsedInput.numberLiterals);
+      const text = matches
+        ? stringifyJsonLossless(outputs, numberLiterals, 2)
+        : outputs.map((output, index) => stringifyJsonLossless(output, numberLiterals, 2, outputs.length === 1 ? '' : `/${index}`)).join('\n');
+      return { text, result: { value: graphValue }, numberLiterals, count: outputs.length, error: '' };
+    } catch (error) {
+      return { text: '', result: null, numberLiterals: NO_NUMBER_LITERALS, count: 0, error: error instanceof Error ? error.message : 'Invalid query' };
     }
+  }, [parsedInput, query, queryLanguage]);
 
-    // Position nodes in a hierarchical layout
-    const positionNodes = () => {
-      const levelGroups: { [level: number]: GraphNode[] } = {};
-      nodes.forEach(node => {
-        if (!levelGroups[node.level]) levelGroups[node.level] = [];
-        levelGroups[node.level].push(node);
-      });
+  const inputGraph = useMemo(
+    () => createGraph(parsedInput, expandedNodes),
+    [parsedInput, expandedNodes, createGraph]
+  );
+  const queryGraph = useMemo(
+    () => createGraph(queryResult.result, queryExpandedNodes),
+    [queryResult.result, queryExpandedNodes, createGraph]
+  );
+  const { nodes, edges, nodeById } = graphSource === 'query' ? queryGraph : inputGraph;
+
+  const animatedNodes = useAnimatedLayout(nodes, node => node.id, node => node.parent);
+  const animatedNodeById = useMemo(() => new Map(animatedNodes.map(node => [node.id, node])), [animatedNodes]);
+
+  // Only nodes near the viewport are rendered; until the canvas has been measured everything is.
+  const visibleNodes = useMemo(() => {
+    if (viewport.width === 0) return animatedNodes;
+    const left = -pan.x / zoom - CULL_MARGIN;
+    const top = -pan.y / zoom - CULL_MARGIN;
+    const right = (viewport.width - pan.x) / zoom + CULL_MARGIN;
+    const bottom = (viewport.height - pan.y) / zoom + CULL_MARGIN;
+    return animatedNodes.filter(node =>
+      node.x + node.width >= left && node.x <= right && node.y + node.height >= top && node.y <= bottom);
+  }, [animatedNodes, pan, zoom, viewport]);
+  const visibleNodeIds = useMemo(() => new Set(visibleNodes.map(node => node.id)), [visibleNodes]);
 
-      const levelWidth = 300;
-      let currentY = 50;
-
-      Object.entries(levelGroups).forEach(([level, levelNodes]) => {
-        const levelNum = parseInt(level);
-        const x = levelNum * levelWidth + 50;
-        
-        levelNodes.forEach((node, index) => {
-          node.x = x;
-          node.y = currentY;
-          currentY += node.height + 30;
-        });
-      });
-    };
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => {
+      setViewport({ width: container.clientWidth, height: container.clientHeight });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const showMoreChildren = (path: string) => {
+    setChildLimits(prev => new Map(prev).set(path, getChildLimit(prev, path) + CHILD_PAGE_SIZE));
+  };
 
-    positionNodes();
-    return { nodes, edges };
+  const showGraphOf = (source: 'input' | 'query') => {
+    setGraphSource(source);
+    setSelectedNode(null);
   };
 
-  const { nodes, edges } = useMemo(() => createGraph(jsonInput), [jsonInput, expandedNodes]);
+  // A new result is a different tree, so start again from just its root expanded.
+  useEffect(() => {
+    setQueryExpandedNodes(new Set(['']));
+  }, [queryResult.result]);
+
+  const search = useMemo(() => {
+    if (!parsedInput || !searchQuery.trim()) return { matches: [] as string[], error: '' };
+    try {
+      return { matches: searchJson(parsedInput.value, searchQuery.trim(), searchMode), error: '' };
+    } catch (error) {
+      return { matches: [] as string[], error: error instanceof Error ? error.message : 'Invalid query' };
+    }
+  }, [parsedInput, searchQuery, searchMode]);
+
+  // Search paths point into the input document, so they only highlight its graph.
+  const matchSet = useMemo(() => new Set(graphSource === 'input' ? search.matches : []), [search.matches, graphSource]);
+  const activeMatchPath = graphSource === 'input' ? search.matches[activeMatch] ?? null : null;
+
+  // Expands a graph down to each pointer, then selects and pans to `focus`.
+  const revealPaths = useCallback((source: 'input' | 'query', pointers: string[], focus: string) => {
+    const graphValue = source === 'query' ? queryResult.result : parsedInput;
+    if (!graphValue) return;
+
+    const setExpanded = source === 'query' ? setQueryExpandedNodes : setExpandedNodes;
+    setGraphSource(source);
+    setChildLimits(prev => revealInChildLimits(graphValue.value, pointers, prev));
+    setExpanded(prev => new Set([...prev, ...pointers.flatMap(getAncestorPointers)]));
+    pendingPanRef.current = focus;
+  }, [parsedInput, queryResult.result]);
+
+  const activeGraphValue = graphSource === 'query' ? queryResult.result : parsedInput;
+
+  const activeExpandedNodes = graphSource === 'query' ? queryExpandedNodes : expandedNodes;
+
+  const numberLiterals = graphSource === 'query' ? queryResult.numberLiterals : parsedInput?.numberLiterals ?? NO_NUMBER_LITERALS;
+
+  const jsonTree = useMemo(
+    () => (view === 'tree' && activeGraphValue
+      ? buildJsonNodeTree(activeGraphValue.value, path => activeExpandedNodes.has(path), path => getChildLimit(childLimits, path))
+      : null),
+    [view, activeGraphValue, activeExpandedNodes, childLimits]
+  );
+  const jsonTable = useMemo(() => {
+    if (view !== 'table' || !activeGraphValue) return null;
+    const path = findTablePath(activeGraphValue.value, selectedNode);
+    return path !== null ? getJsonTable(activeGraphValue.value, path) : null;
+  }, [view, activeGraphValue, selectedNode]);
+  const rawLines = useMemo(
+    () => (view === 'raw' && activeGraphValue ? formatJsonLines(activeGraphValue.value, numberLiterals) : []),
+    [view, activeGraphValue, numberLiterals]
+  );
+
+  // The other views select values the graph may not have materialized, so the graph is expanded down to them for the details panel.
+  const selectPath = (path: string) => {
+    if (selectedNode === path) {
+      setSelectedNode(null);
+      return;
+    }
+    const setExpanded = graphSource === 'query' ? setQueryExpandedNodes : setExpandedNodes;
+    if (activeGraphValue) setChildLimits(prev => revealInChildLimits(activeGraphValue.value, [path], prev));
+    setExpanded(prev => new Set([...prev, ...getAncestorPointers(path)]));
+    setSelectedNode(path);
+  };
+
+  const expandToDepth = (depth: number) => {
+    if (!activeGraphValue) return;
+    const setExpanded = graphSource === 'query' ? setQueryExpandedNodes : setExpandedNodes;
+    setExpanded(getContainerPaths(activeGraphValue.value, depth, childLimits));
+  };
+
+  const handleExpandPath = () => {
+    const pointer = expandPathInput.trim();
+    if (!activeGraphValue) return;
+    if (pointer !== '' && !pointer.startsWith('/')) {
+      setExpandPathError('A JSON Pointer starts with "/"');
+      return;
+    }
+    if (getValueAtPointer(activeGraphValue.value, pointer) === undefined) {
+      setExpandPathError(`Nothing at ${pointer}`);
+      return;
+    }
+
+    setExpandPathError('');
+    revealPaths(graphSource, [pointer], pointer);
+    const setExpanded = graphSource === 'query' ? setQueryExpandedNodes : setExpandedNodes;
+    setExpanded(prev => new Set(prev).add(pointer));
+  };
+
+  const goToMatch = useCallback((index: number) => {
+    if (search.matches.length === 0) return;
+
+    const next = (index + search.matches.length) % search.matches.length;
+    setActiveMatch(next);
+    revealPaths('input', search.matches.length <= MAX_REVEALED_MATCHES ? search.matches : [search.matches[next]], search.matches[next]);
+  }, [search.matches, revealPaths]);
+
+  // Jump to the first hit when the query or mode changes, but not when an
+  // edit or undo re-parses the input under the same query.
+  useEffect(() => {
+    const query = `${searchMode}:${searchQuery.trim()}`;
+    if (jumpedQueryRef.current === query) {
+      setActiveMatch(prev => Math.min(prev, Math.max(0, search.matches.length - 1)));
+      return;
+    }
+    setActiveMatch(0);
+    jumpedQueryRef.current = search.matches.length > 0 ? query : null;
+    if (search.matches.length > 0) goToMatch(0);
+  }, [search.matches, searchQuery, searchMode, goToMatch]);
+
+  const inferredSchema = useMemo(
+    () => (showSchema && schemaMode === 'infer' && parsedInput ? JSON.stringify(inferJsonSchema(parsedInput.value), null, 2) : ''),
+    [showSchema, schemaMode, parsedInput]
+  );
+
+  const schemaValidation = useMemo(() => {
+    if (!parsedInput || !schemaInput.trim()) return { violations: [] as JsonSchemaViolation[], error: '' };
+    try {
+      return { violations: validateJsonSchema(parsedInput.value, parseDataAuto(schemaInput).value as JsonSchema), error: '' };
+    } catch (error) {
+      return { violations: [] as JsonSchemaViolation[], error: error instanceof Error ? error.message : 'Invalid schema' };
+    }
+  }, [parsedInput, schemaInput]);
+
+  // Violations are badged on the deepest node that is currently in the graph, so collapsed containers still show them.
+  const violationsByPath = useMemo(() => {
+    const byPath = new Map<string, JsonSchemaViolation[]>();
+    if (graphSource !== 'input') return byPath;
+    const shownPaths = new Set(inputGraph.nodes.map(node => node.id));
+    schemaValidation.violations.forEach(violation => {
+      const path = shownPaths.has(violation.pointer)
+        ? violation.pointer
+        : getAncestorPointers(violation.pointer).reverse().find(ancestor => shownPaths.has(ancestor));
+      if (path !== undefined) byPath.set(path, [...(byPath.get(path) ?? []), violation]);
+    });
+    return byPath;
+  }, [schemaValidation.violations, inputGraph.nodes, graphSource]);
+
+  const generatedTypes = useMemo(
+    () => (showTypes && parsedInput ? generateTypes(parsedInput.value, typeLanguage) : ''),
+    [showTypes, parsedInput, typeLanguage]
+  );
+
+  const handleDownloadTypes = () => {
+    const target = typeLanguages.find(({ language }) => language === typeLanguage);
+    if (target) exportAsText(generatedTypes, 'types', target.extension);
+  };
+
+  const handleValidateWithInferred = () => {
+    setSchemaInput(inferredSchema);
+    setSchemaMode('validate');
+  };
+
+  useEffect(() => {
+    const target = pendingPanRef.current;
+    const container = containerRef.current;
+    if (target === null || !container) return;
+
+    const node = nodeById.get(target);
+    if (!node) return;
+
+    pendingPanRef.current = null;
+    setSelectedNode(node.id);
+    // The canvas has no size while another view is shown.
+    if (container.clientWidth === 0) return;
+    setPan({
+      x: container.clientWidth / 2 - (node.x + node.width / 2) * zoom,
+      y: container.clientHeight / 2 - (node.y + node.height / 2) * zoom,
+    });
+  }, [nodeById, zoom]);
+
+  // Expansion and selection are keyed by path, so they carry over to the new text; only `selectPath` has to be revealed.
+  const restoreJsonText = (text: string, selectPath: string | null) => {
+    if (text === jsonInput) return;
+    if (selectPath !== null) {
+      pendingRevealRef.current = { staleInput: parsedInput, path: selectPath };
+      setExpandedNodes(prev => new Set([...prev, ...getAncestorPointers(selectPath)]));
+      setSelectedNode(selectPath);
+    }
+    setGraphSource('input');
+    setJsonInput(text);
+    setRevision(prev => prev + 1);
+  };
+
+  const recordJsonText = (text: string, selectPath: string | null) => {
+    if (text === jsonInput) return;
+    setHistory(prev => ({ past: [...prev.past, jsonInput].slice(-MAX_HISTORY), future: [] }));
+    restoreJsonText(text, selectPath);
+  };
+
+  const handleEdit = (edit: (document: unknown) => unknown, selectPath: string, numberLiteral?: string): string | null => {
+    if (!parsedInput) return 'Fix the JSON input before editing';
+    try {
+      const document = edit(parsedInput.value);
+      // A number typed with more digits than a JavaScript number holds is written as typed.
+      const numberLiterals = numberLiteral !== undefined
+        ? new Map(parsedInput.numberLiterals).set(selectPath, numberLiteral)
+        : parsedInput.numberLiterals;
+      recordJsonText(
+        parsedFormat === 'json' ? prettifyJson(document, indent, numberLiterals) : stringifyDataFormat(document, parsedFormat, numberLiterals),
+        selectPath
+      );
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Edit failed';
+    }
+  };
+
+  const handleRepair = () => {
+    const result = repairJson(jsonInput);
+    setRepairReport({ changes: result.changes, valid: findJsonError(result.text) === null });
+    recordJsonText(result.text, null);
+  };
+
+  // Runs a formatting action on the input and records the result as an undoable edit.
+  const applyFormat = (format: () => string) => {
+    try {
+      const text = format();
+      setFormatError('');
+      setRepairReport(null);
+      // Formatted output is JSON or plain text, which a pinned YAML/TOML/XML format would misread.
+      setInputFormat('auto');
+      recordJsonText(text, null);
+    } catch (error) {
+      setFormatError(error instanceof Error ? error.message : 'Formatting failed');
+    }
+  };
+
+  // Structural actions keep the input's format; only JSON takes the chosen indent.
+  const rewriteInput = (transform: (value: unknown) => unknown) => () => {
+    if (!parsedInput) throw new Error(`Fix the ${parsedFormatLabel} input first`);
+    const value = transform(parsedInput.value);
+    return parsedFormat === 'json'
+      ? prettifyJson(value, indent, parsedInput.numberLiterals)
+      : stringifyDataFormat(value, parsedFormat, parsedInput.numberLiterals);
+  };
+
+  const formatActions: Array<[string, string, () => string]> = [
+    ['Prettify', 'Pretty-print as JSON', () => {
+      if (!parsedInput) throw new Error(`Fix the ${parsedFormatLabel} input first`);
+      return prettifyJson(parsedInput.value, indent, parsedInput.numberLiterals);
+    }],
+    ['Minify', 'Print as JSON on a single line', () => {
+      if (!parsedInput) throw new Error(`Fix the ${parsedFormatLabel} input first`);
+      return minifyJson(parsedInput.value, parsedInput.numberLiterals);
+    }],
+    ['Sort Keys', 'Sort object keys at every depth', rewriteInput(sortJsonKeys)],
+    ['Remove Empty', 'Remove nulls, empty strings, arrays and objects', rewriteInput(removeEmptyValues)],
+    ['Escape', 'Turn the input into a JSON string literal', () => escapeJsonString(parsedInput ? minifyJson(parsedInput.value, parsedInput.numberLiterals) : jsonInput)],
+    ['Unescape', 'Turn a JSON string literal (e.g. from a log line) back into JSON', () => unescapeJsonString(jsonInput, indent)],
+  ];
+
+  const roundedNumbers = useMemo(
+    () => (parsedInput ? getRoundedNumbers(parsedInput.numberLiterals, convertFormat) : []),
+    [parsedInput, convertFormat]
+  );
+  const convertFormatLabel = dataFormats.find(({ format }) => format === convertFormat)?.label ?? convertFormat;
+
+  const convertInput = (): string | null => {
+    if (!parsedInput) return null;
+    try {
+      setConversionError('');
+      return stringifyDataFormat(parsedInput.value, convertFormat, parsedInput.numberLiterals);
+    } catch (error) {
+      setConversionError(error instanceof Error ? error.message : 'Conversion failed');
+      return null;
+    }
+  };
+
+  const handleCopyConverted = () => {
+    const text = convertInput();
+    if (text !== null) navigator.clipboard.writeText(text);
+  };
+
+  const handleDownloadConverted = () => {
+    const text = convertInput();
+    const target = dataFormats.find(({ format }) => format === convertFormat);
+    if (text !== null && target) exportAsText(text, `data-${Date.now()}`, target.extension, target.mimeType);
+  };
+
+  const handleReplaceWithConverted = () => {
+    const text = convertInput();
+    if (text === null) return;
+    // Auto-detection recognizes every output format, and keeps undo able to restore the previous one.
+    setInputFormat('auto');
+    recordJsonText(text, null);
+  };
+
+  const handleGoToError = () => {
+    const input = inputRef.current;
+    if (!input || !diagnostic) return;
+    input.focus();
+    input.setSelectionRange(diagnostic.offset, Math.min(diagnostic.offset + 1, jsonInput.length));
+  };
+
+  const undoEdit = () => {
+    const previous = history.past[history.past.length - 1];
+    if (previous === undefined) return;
+    setHistory({ past: history.past.slice(0, -1), future: [jsonInput, ...history.future] });
+    restoreJsonText(previous, null);
+  };
+
+  const redoEdit = () => {
+    const [next, ...future] = history.future;
+    if (next === undefined) return;
+    setHistory({ past: [...history.past, jsonInput], future });
+    restoreJsonText(next, null);
+  };
+
+  useEffect(() => {
+    const pending = pendingRevealRef.current;
+    if (!pending || parsedInput === pending.staleInput) return;
+
+    pendingRevealRef.current = null;
+    if (parsedInput) setChildLimits(prev => revealInChildLimits(parsedInput.value, [pending.path], prev));
+  }, [parsedInput]);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z undo and redo graph edits; text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || !['z', 'y'].includes(event.key.toLowerCase())) return;
+      const target = event.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      event.preventDefault();
+      if (event.key.toLowerCase() === 'y' || event.shiftKey) {
+        redoEdit();
+      } else {
+        undoEdit();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if (e.target === svgRef.current) {
@@ -310,48 +891,39 @@ export default function JsonVisualizer() {
     }
   };
 
-  const formatValue = (value: any, type: GraphNode['type']): string => {
+  const formatValue = ({ id, value, type, childCount }: GraphNode): string => {
     switch (type) {
       case 'string':
         if (value.length > 30) return `"${value.substring(0, 30)}..."`;
         return `"${value}"`;
       case 'number':
+        return numberLiterals.get(id) ?? value.toString();
       case 'boolean':
         return value.toString();
       case 'null':
         return 'null';
       case 'object':
-        return `{${Object.keys(value).length} keys}`;
+        return `{${childCount} keys}`;
       case 'array':
-        return `[${value.length} items]`;
+        return `[${childCount} items]`;
       default:
         return '';
     }
   };
 
-  const getObjectPreview = (value: any, type: GraphNode['type']) => {
-    if (type === 'object' && value !== null) {
-      return Object.entries(value).slice(0, 3).map(([key, val]) => {
-        const valType = Array.isArray(val) ? 'array' : val === null ? 'null' : typeof val;
-        const preview = valType === 'string' ? `"${val.toString().substring(0, 15)}${val.toString().length > 15 ? '...' : ''}"` : 
-                       valType === 'object' ? '{...}' :
-                       valType === 'array' ? '[...]' :
-                       val?.toString().substring(0, 15);
-        return { key, preview, type: valType };
-      });
-    } else if (type === 'array') {
-      return value.slice(0, 3).map((val: any, index: number) => {
-        const valType = Array.isArray(val) ? 'array' : val === null ? 'null' : typeof val;
-        const preview = valType === 'string' ? `"${val.toString().substring(0, 15)}${val.toString().length > 15 ? '...' : ''}"` : 
-                       valType === 'object' ? '{...}' :
-                       valType === 'array' ? '[...]' :
-                       val?.toString().substring(0, 15);
-        return { key: `[${index}]`, preview, type: valType };
-      });
-    }
-    return [];
+  const getObjectPreview = (value: any, type: GraphNode['type'], path: string) => {
+    if (type !== 'object' && type !== 'array') return [];
+    return getFirstEntries(value, 3).map(([key, val]: [string, any], index) => {
+      const valType = Array.isArray(val) ? 'array' : val === null ? 'null' : typeof val;
+      const preview = valType === 'string' ? `"${val.toString().substring(0, 15)}${val.toString().length > 15 ? '...' : ''}"` : 
+                     valType === 'object' ? '{...}' :
+                     valType === 'array' ? '[...]' :
+                     (numberLiterals.get(appendJsonPointer(path, type === 'array' ? index : key)) ?? String(val)).substring(0, 15);
+      return { key, preview, type: valType };
+    });
   };
 
+
   const handleNodeClick = (nodeId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (selectedNode === nodeId) {
@@ -368,12 +940,14 @@ export default function JsonVisualizer() {
 
   const renderNodeContent = (node: GraphNode) => {
     const isSelected = selectedNode === node.id;
+    const isMatch = matchSet.has(node.id);
+    const isActiveMatch = activeMatchPath === node.id;
+    const violations = violationsByPath.get(node.id);
     const colors = getNodeColor(node.type);
-    const hasChildren = node.children.length > 0 || 
-                       (node.type === 'object' && node.value !== null && Object.keys(node.value).length > 0) ||
-                       (node.type === 'array' && node.value.length > 0);
+    const hasChildren = node.childCount > 0;
 
-    const objectPreview = getObjectPreview(node.value, node.type);
+    const numberLiteral = numberLiterals.get(node.id);
+    const objectPreview = getObjectPreview(node.value, node.type, node.id);
 
     return (
       <g key={node.id}>
@@ -384,9 +958,9 @@ export default function JsonVisualizer() {
           width={node.width}
           height={node.height}
           fill={colors.bg}
-          fillOpacity={0.1}
-          stroke={isSelected ? 'hsl(var(--ring))' : colors.border}
-          strokeWidth={isSelected ? 2 : 1}
+          fillOpacity={isMatch ? 0.2 : 0.1}
+          stroke={isSelected ? 'hsl(var(--ring))' : isMatch ? '#EAB308' : violations ? '#EF4444' : colors.border}
+          strokeWidth={isActiveMatch ? 3 : isSelected || isMatch ? 2 : 1}
           rx={8}
           className="cursor-pointer transition-all duration-200"
           onClick={(e) => handleNodeClick(node.id, e)}
@@ -502,7 +1076,7 @@ export default function JsonVisualizer() {
           className="fill-muted-foreground text-xs"
           textAnchor="start"
         >
-          {formatValue(node.value, node.type)}
+          {formatValue(node)}
         </text>
 
         {/* URL Link Indicator */}
@@ -550,6 +1124,28 @@ export default function JsonVisualizer() {
           </g>
         )}
 
+        {/* Precision Loss Indicator */}
+        {numberLiteral !== undefined && (
+          <g>
+            <title>{getNumberPrecisionWarning(numberLiteral)}</title>
+            <circle
+              cx={node.x + node.width - 30}
+              cy={node.y + 55}
+              r={8}
+              fill="rgba(245, 158, 11, 0.2)"
+              stroke="#F59E0B"
+              strokeWidth={1}
+            />
+            <AlertTriangle
+              x={node.x + node.width - 34}
+              y={node.y + 51}
+              width={8}
+              height={8}
+              className="text-amber-400"
+            />
+          </g>
+        )}
+
         {/* Object/Array Preview */}
         {(node.type === 'object' || node.type === 'array') && (
           <g>
@@ -567,41 +1163,84 @@ export default function JsonVisualizer() {
                 </text>
               </g>
             ))}
-            {((node.type === 'object' && Object.keys(node.value).length > 3) || 
-              (node.type === 'array' && node.value.length > 3)) && (
+            {node.childCount > 3 && (
               <text
                 x={node.x + 12}
                 y={node.y + 75 + 3 * 20}
                 className="fill-muted-foreground text-xs italic"
                 textAnchor="start"
               >
-                +{(node.type === 'object' ? Object.keys(node.value).length : node.value.length) - 3} more...
+                +{node.childCount - 3} more...
               </text>
             )}
           </g>
         )}
+
+        {/* Lazily materialized children */}
+        {node.isExpanded && node.children.length < node.childCount && (
+          <text
+            x={node.x + 12}
+            y={node.y + node.height - 12}
+            className="fill-primary text-xs font-medium cursor-pointer"
+            textAnchor="start"
+            onClick={(e) => {
+              e.stopPropagation();
+              showMoreChildren(node.id);
+            }}
+          >
+            Showing {node.children.length} of {node.childCount} · Show {Math.min(CHILD_PAGE_SIZE, node.childCount - node.children.length)} more
+          </text>
+        )}
+
+        {/* Schema violation badge */}
+        {violations && (
+          <g>
+            <title>{violations.map(violation => `${violation.pointer || '/'}: ${violation.message}`).join('\n')}</title>
+            <circle cx={node.x + node.width} cy={node.y} r={10} fill="#EF4444" />
+            <text
+              x={node.x + node.width}
+              y={node.y + 4}
+              className="fill-white text-xs font-medium"
+              textAnchor="middle"
+            >
+              {violations.length > 99 ? '99+' : violations.length}
+            </text>
+          </g>
+        )}
       </g>
     );
   };
 
   const renderEdges = () => {
     return edges.map((edge, index) => {
-      const fromNode = nodes.find(n => n.id === edge.from);
-      const toNode = nodes.find(n => n.id === edge.to);
+      if (!visibleNodeIds.has(edge.from) && !visibleNodeIds.has(edge.to)) return null;
+
+      const fromNode = animatedNodeById.get(edge.from);
+      const toNode = animatedNodeById.get(edge.to);
       
       if (!fromNode || !toNode) return null;
 
-      const fromX = fromNode.x + fromNode.width;
-      const fromY = fromNode.y + fromNode.height / 2;
-      const toX = toNode.x;
-      const toY = toNode.y + toNode.height / 2;
-
-      const midX = fromX + (toX - fromX) / 2;
+      let path: string;
+      if (edge.fromSide === 'bottom') {
+        const fromX = fromNode.x + fromNode.width / 2;
+        const fromY = fromNode.y + fromNode.height;
+        const toX = toNode.x + toNode.width / 2;
+        const toY = toNode.y;
+        const midY = fromY + (toY - fromY) / 2;
+        path = `M ${fromX} ${fromY} C ${fromX} ${midY}, ${toX} ${midY}, ${toX} ${toY}`;
+      } else {
+        const fromX = fromNode.x + fromNode.width;
+        const fromY = fromNode.y + fromNode.height / 2;
+        const toX = toNode.x;
+        const toY = toNode.y + toNode.height / 2;
+        const midX = fromX + (toX - fromX) / 2;
+        path = `M ${fromX} ${fromY} C ${midX} ${fromY}, ${midX} ${toY}, ${toX} ${toY}`;
+      }
 
       return (
         <g key={index}>
           <path
-            d={`M ${fromX} ${fromY} C ${midX} ${fromY}, ${midX} ${toY}, ${toX} ${toY}`}
+            d={path}
             stroke="hsl(var(--border))"
             strokeWidth="2"
             fill="none"
@@ -612,7 +1251,7 @@ export default function JsonVisualizer() {
     });
   };
 
-  const renderValuePreview = (value: any) => {
+  const renderValuePreview = (value: any, path: string) => {
     if (typeof value === 'string') {
       if (isBase64Image(value)) {
         return (
@@ -676,13 +1315,17 @@ export default function JsonVisualizer() {
     return (
       <div className="mt-2 p-2 bg-muted/20 rounded-lg max-h-48 overflow-auto">
         <pre className="text-xs text-muted-foreground whitespace-pre-wrap break-all">
-          {typeof value === 'string' ? `"${value}"` : JSON.stringify(value, null, 2)}
+          {typeof value === 'string' ? `"${value}"` : stringifyJsonLossless(value, numberLiterals, 2, path)}
         </pre>
       </div>
     );
   };
 
-  const selectedNodeData = selectedNode ? nodes.find(n => n.id === selectedNode) : null;
+  const selectedNodeData = selectedNode !== null ? nodeById.get(selectedNode) : null;
+
+  const emptyGraphMessage = graphSource === 'query'
+    ? 'The query has no result'
+    : isParsing ? 'Parsing JSON...' : jsonInput.trim() ? `Invalid ${parsedFormatLabel}, see the diagnostics below the input` : 'Enter JSON to visualize';
 
   const handleSampleJson = () => {
     const sampleJson = {
@@ -716,7 +1359,8 @@ export default function JsonVisualizer() {
       metadata: null
     };
     setJsonInput(JSON.stringify(sampleJson, null, 2));
-    setExpandedNodes(new Set(['node-0']));
+    setRepairReport(null);
+    setExpandedNodes(new Set(['']));
   };
 
   const handleExport = async (format: 'png' | 'jpg' | 'pdf' | 'html') => {
@@ -736,12 +1380,21 @@ export default function JsonVisualizer() {
         ${nodes.map(node => `
           <div style="margin: 10px 0; padding: 10px; border: 1px solid #ccc; border-radius: 5px;">
             <strong>${node.key}</strong> (${node.type})<br>
-            Value: ${typeof node.value === 'string' ? `"${node.value}"` : JSON.stringify(node.value)}
+            Value: ${typeof node.value === 'string' ? `"${node.value}"` : stringifyJsonLossless(node.value, numberLiterals, 0, node.id)}
           </div>
         `).join('')}
       `;
       exportAsHTML(htmlContent, filename);
-    } else if (format === 'pdf') {
+      return;
+    }
+
+    // The canvas is hidden outside the graph view and would capture blank, so show it and let it paint first.
+    if (view !== 'graph') {
+      setView('graph');
+      await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+    }
+    if (!exportRef.current) return;
+    if (format === 'pdf') {
       await exportAsPDF(exportRef.current, filename);
     } else {
       await exportAsImage(exportRef.current, filename, format);
@@ -767,6 +1420,42 @@ export default function JsonVisualizer() {
               <FileText size={16} className="mr-2" />
               Load Sample
             </Button>
+            <Button
+              onClick={undoEdit}
+              variant="ghost"
+              size="sm"
+              disabled={history.past.length === 0}
+              title="Undo edit (Ctrl+Z)"
+            >
+              <Undo2 size={16} />
+            </Button>
+            <Button
+              onClick={redoEdit}
+              variant="ghost"
+              size="sm"
+              disabled={history.future.length === 0}
+              title="Redo edit (Ctrl+Shift+Z)"
+            >
+              <Redo2 size={16} />
+            </Button>
+            <Button
+              onClick={() => setShowSchema(prev => !prev)}
+              variant={showSchema ? 'secondary' : 'ghost'}
+              size="sm"
+              title="Infer or validate a JSON Schema"
+            >
+              <ShieldCheck size={16} className="mr-2" />
+              Schema
+            </Button>
+            <Button
+              onClick={() => setShowTypes(prev => !prev)}
+              variant={showTypes ? 'secondary' : 'ghost'}
+              size="sm"
+              title="Generate types from the input"
+            >
+              <Braces size={16} className="mr-2" />
+              Types
+            </Button>
             <Button
               onClick={() => navigator.clipboard.writeText(jsonInput)}
               variant="ghost"
@@ -788,13 +1477,358 @@ export default function JsonVisualizer() {
           <Panel defaultSize={33} minSize={20}>
             <div className="h-full p-6 border-r border-border">
               <div className="h-full flex flex-col">
-                <label className="text-foreground font-medium mb-4">JSON Input</label>
-                <textarea
-                  value={jsonInput}
-                  onChange={(e) => setJsonInput(e.target.value)}
-                  placeholder="Paste your JSON here..."
-                  className="flex-1 w-full bg-background border border-border rounded-xl p-4 text-foreground placeholder-muted-foreground font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
-                />
+                <div className="flex items-center justify-between mb-4">
+                  <label className="text-foreground font-medium">Input</label>
+                  <select
+                    value={inputFormat}
+                    onChange={(e) => setInputFormat(e.target.value as DataFormat | 'auto')}
+                    className="bg-background border border-border rounded-md px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                  >
+                    <option value="auto">Auto-detect{jsonInput.trim() ? ` (${parsedFormatLabel})` : ''}</option>
+                    {dataFormats.map(({ format, label }) => (
+                      <option key={format} value={format}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="relative flex-1 bg-background border border-border rounded-xl overflow-hidden focus-within:ring-2 focus-within:ring-ring focus-within:border-transparent">
+                  {/* Error marker: a transparent copy of the text behind the textarea with the bad character highlighted */}
+                  {diagnostic && jsonInput.length <= MAX_MARKED_INPUT && (
+                    <div
+                      aria-hidden
+                      className="absolute inset-0 p-4 font-mono text-sm text-transparent whitespace-pre-wrap break-words overflow-hidden pointer-events-none"
+                      style={{ scrollbarGutter: 'stable' }}
+                    >
+                      <div style={{ transform: `translate(${-inputScroll.left}px, ${-inputScroll.top}px)` }}>
+                        {jsonInput.slice(0, diagnostic.offset)}
+                        <mark className="bg-red-500/40 text-transparent rounded-sm">
+                          {jsonInput[diagnostic.offset] && jsonInput[diagnostic.offset] !== '\n' ? jsonInput[diagnostic.offset] : ' '}
+                        </mark>
+                        {jsonInput.slice(jsonInput[diagnostic.offset] === '\n' ? diagnostic.offset : diagnostic.offset + 1)}
+                      </div>
+                    </div>
+                  )}
+                  <textarea
+                    ref={inputRef}
+                    value={jsonInput}
+                    onChange={(e) => {
+                      setJsonInput(e.target.value);
+                      setRepairReport(null);
+                      setFormatError('');
+                    }}
+                    onScroll={(e) => setInputScroll({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft })}
+                    placeholder="Paste JSON, JSON5, YAML, TOML or XML here..."
+                    className="relative w-full h-full bg-transparent p-4 text-foreground placeholder-muted-foreground font-mono text-sm resize-none focus:outline-none"
+                    style={{ scrollbarGutter: 'stable' }}
+                  />
+                </div>
+
+                {/* Parse Diagnostics */}
+                {diagnostic && (
+                  <div className="mt-4 p-3 rounded-lg border text-sm bg-red-500/10 border-red-500/30 text-red-400 space-y-2">
+                    <div>
+                      <span className="font-medium">Line {diagnostic.line}, column {diagnostic.column}:</span> {diagnostic.message}
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button onClick={handleGoToError} variant="ghost" size="sm" className="h-7">
+                        <Crosshair size={14} className="mr-2" />
+                        Go to Error
+                      </Button>
+                      <Button onClick={handleRepair} variant="ghost" size="sm" className="h-7" title="Fix trailing commas, quotes, comments and Python literals">
+                        <Wrench size={14} className="mr-2" />
+                        Repair
+                      </Button>
+                    </div>
+                  </div>
+                )}
+                {parseError && !diagnostic && (
+                  <div className="mt-4 p-3 rounded-lg border text-sm bg-red-500/10 border-red-500/30 text-red-400">
+                    <span className="font-medium">Invalid {parsedFormatLabel}:</span> {parseError}
+                  </div>
+                )}
+                {repairReport && (
+                  <div className={`mt-4 p-3 rounded-lg border text-sm space-y-1 ${
+                    repairReport.valid ? 'bg-green-500/10 border-green-500/30 text-green-400' : 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400'
+                  }`}>
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        {repairReport.changes.length === 0
+                          ? 'Nothing to repair automatically'
+                          : `Repaired ${repairReport.changes.length} issue${repairReport.changes.length === 1 ? '' : 's'}${repairReport.valid ? '' : ', but the JSON is still invalid'}`}
+                      </span>
+                      <Button onClick={() => setRepairReport(null)} variant="ghost" size="sm" className="h-6 px-2">
+                        <X size={14} />
+                      </Button>
+                    </div>
+                    {repairReport.changes.length > 0 && (
+                      <ul className="max-h-24 overflow-auto font-mono text-xs">
+                        {repairReport.changes.map((change, index) => (
+                          <li key={index}>{change}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {/* Formatting */}
+                <div className="mt-4 flex flex-wrap items-center gap-1">
+                  <select
+                    value={indent}
+                    onChange={(e) => setIndent(e.target.value === 'tab' ? 'tab' : (Number(e.target.value) as JsonIndent))}
+                    title="Indentation"
+                    className="bg-background border border-border rounded-md px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                  >
+                    {indentOptions.map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                  {formatActions.map(([label, title, format]) => (
+                    <Button
+                      key={label}
+                      onClick={() => applyFormat(format)}
+                      variant="ghost"
+                      size="sm"
+                      disabled={!jsonInput.trim()}
+                      title={title}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                {formatError && <div className="mt-1 text-xs text-red-400">{formatError}</div>}
+
+                {/* Format Conversion */}
+                <div className="mt-4 flex items-center space-x-2">
+                  <span className="text-sm text-muted-foreground whitespace-nowrap">Convert to</span>
+                  <select
+                    value={convertFormat}
+                    onChange={(e) => {
+                      setConvertFormat(e.target.value as DataFormat);
+                      setConversionError('');
+                    }}
+                    className="bg-background border border-border rounded-md px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                  >
+                    {dataFormats.map(({ format, label }) => (
+                      <option key={format} value={format}>{label}</option>
+                    ))}
+                  </select>
+                  <Button onClick={handleCopyConverted} variant="ghost" size="sm" disabled={!parsedInput} title="Copy converted text">
+                    <Copy size={16} />
+                  </Button>
+                  <Button onClick={handleDownloadConverted} variant="ghost" size="sm" disabled={!parsedInput} title="Download converted file">
+                    <Download size={16} />
+                  </Button>
+                  <Button onClick={handleReplaceWithConverted} variant="ghost" size="sm" disabled={!parsedInput} title="Replace the input with the converted text">
+                    <Replace size={16} />
+                  </Button>
+                </div>
+                {(conversionError || convertFormat === 'toml') && (
+                  <div className={`mt-1 text-xs ${conversionError ? 'text-red-400' : 'text-muted-foreground'}`}>
+                    {conversionError || 'TOML has no null, so null properties are left out.'}
+                  </div>
+                )}
+                {roundedNumbers.length > 0 && (
+                  <div className="mt-1 text-xs text-amber-400" title={roundedNumbers.join('\n')}>
+                    {roundedNumbers.length} number{roundedNumbers.length === 1 ? '' : 's'} can't be written exactly in {convertFormatLabel} and will be rounded.
+                  </div>
+                )}
+
+                {/* Query Console */}
+                <div className="mt-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-foreground font-medium">Query</label>
+                    <div className="flex space-x-1">
+                      {queryLanguageLabels.map(([language, label]) => (
+                        <Button
+                          key={language}
+                          onClick={() => setQueryLanguage(language)}
+                          variant={queryLanguage === language ? 'secondary' : 'ghost'}
+                          size="sm"
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder={queryLanguage === 'jq' ? '.users[] | select(.active) | .email' : '$.users[?(@.active)].email'}
+                    className="w-full bg-background border border-border rounded-md px-3 py-1.5 font-mono text-sm text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                  />
+                  <div className="flex items-center justify-between">
+                    <span className={`text-sm ${queryResult.error ? 'text-red-400' : 'text-muted-foreground'}`}>
+                      {queryResult.error || (query.trim() && parsedInput
+                        ? `${queryResult.count} result${queryResult.count === 1 ? '' : 's'}`
+                        : query.trim() ? 'Enter valid JSON to run the query' : '')}
+                    </span>
+                    <div className="flex space-x-1">
+                      <Button
+                        onClick={() => showGraphOf(graphSource === 'query' ? 'input' : 'query')}
+                        variant={graphSource === 'query' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        disabled={!queryResult.result && graphSource === 'input'}
+                        title="Show the result in the graph"
+                      >
+                        <Network size={16} className="mr-2" />
+                        Graph
+                      </Button>
+                      <Button
+                        onClick={() => navigator.clipboard.writeText(queryResult.text)}
+                        variant="ghost"
+                        size="sm"
+                        disabled={!queryResult.text}
+                        title="Copy result"
+                      >
+                        <Copy size={16} />
+                      </Button>
+                    </div>
+                  </div>
+                  {queryResult.text && (
+                    <pre className="max-h-48 overflow-auto bg-muted/20 rounded-lg p-3 font-mono text-xs text-foreground whitespace-pre">
+                      {queryResult.text}
+                    </pre>
+                  )}
+                </div>
+
+                {/* Generated Types */}
+                {showTypes && (
+                  <div className="mt-4 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-foreground font-medium">Types</label>
+                      <div className="flex items-center space-x-1">
+                        <select
+                          value={typeLanguage}
+                          onChange={(e) => setTypeLanguage(e.target.value as TypeLanguage)}
+                          className="bg-background border border-border rounded-md px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                        >
+                          {typeLanguages.map(({ language, label }) => (
+                            <option key={language} value={language}>{label}</option>
+                          ))}
+                        </select>
+                        <Button onClick={handleDownloadTypes} variant="ghost" size="sm" disabled={!generatedTypes} title="Download types">
+                          <Download size={16} />
+                        </Button>
+                        <Button
+                          onClick={() => navigator.clipboard.writeText(generatedTypes)}
+                          variant="ghost"
+                          size="sm"
+                          disabled={!generatedTypes}
+                          title="Copy types"
+                        >
+                          <Copy size={16} />
+                        </Button>
+                      </div>
+                    </div>
+                    {generatedTypes ? (
+                      <pre className="max-h-48 overflow-auto bg-muted/20 rounded-lg p-3 font-mono text-xs text-foreground whitespace-pre">
+                        {generatedTypes}
+                      </pre>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Enter valid JSON to generate types</span>
+                    )}
+                  </div>
+                )}
+
+                {/* JSON Schema */}
+                {showSchema && (
+                  <div className="mt-4 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-foreground font-medium">Schema</label>
+                      <div className="flex space-x-1">
+                        {schemaModeLabels.map(([mode, label]) => (
+                          <Button
+                            key={mode}
+                            onClick={() => setSchemaMode(mode)}
+                            variant={schemaMode === mode ? 'secondary' : 'ghost'}
+                            size="sm"
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {schemaMode === 'infer' ? (
+                      <>
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm text-muted-foreground">
+                            {parsedInput ? 'Draft 2020-12, inferred from the input' : 'Enter valid JSON to infer a schema'}
+                          </span>
+                          <div className="flex space-x-1">
+                            <Button
+                              onClick={handleValidateWithInferred}
+                              variant="ghost"
+                              size="sm"
+                              disabled={!inferredSchema}
+                              title="Validate the input against this schema"
+                            >
+                              <ShieldCheck size={16} />
+                            </Button>
+                            <Button
+                              onClick={() => exportAsText(inferredSchema, `schema-${Date.now()}`, 'json', 'application/schema+json')}
+                              variant="ghost"
+                              size="sm"
+                              disabled={!inferredSchema}
+                              title="Download schema"
+                            >
+                              <Download size={16} />
+                            </Button>
+                            <Button
+                              onClick={() => navigator.clipboard.writeText(inferredSchema)}
+                              variant="ghost"
+                              size="sm"
+                              disabled={!inferredSchema}
+                              title="Copy schema"
+                            >
+                              <Copy size={16} />
+                            </Button>
+                          </div>
+                        </div>
+                        {inferredSchema && (
+                          <pre className="max-h-48 overflow-auto bg-muted/20 rounded-lg p-3 font-mono text-xs text-foreground whitespace-pre">
+                            {inferredSchema}
+                          </pre>
+                        )}
+                      </>
+                    ) : (
+                      <>
+                        <textarea
+                          value={schemaInput}
+                          onChange={(e) => setSchemaInput(e.target.value)}
+                          placeholder='{ "type": "object", "required": ["id"] }'
+                          rows={5}
+                          className="w-full bg-background border border-border rounded-md px-3 py-1.5 font-mono text-xs text-foreground placeholder-muted-foreground resize-y focus:outline-none focus:ring-2 focus:ring-ring"
+                        />
+                        {schemaInput.trim() && (
+                          <div className={`text-sm ${schemaValidation.error || schemaValidation.violations.length > 0 ? 'text-red-400' : parsedInput ? 'text-green-400' : 'text-muted-foreground'}`}>
+                            {schemaValidation.error || (!parsedInput
+                              ? 'Enter valid JSON to validate'
+                              : schemaValidation.violations.length === 0
+                                ? 'The input matches the schema'
+                                : `${schemaValidation.violations.length} violation${schemaValidation.violations.length === 1 ? '' : 's'}`)}
+                          </div>
+                        )}
+                        {schemaValidation.violations.length > 0 && (
+                          <ul className="max-h-40 overflow-auto space-y-1">
+                            {schemaValidation.violations.map((violation, index) => (
+                              <li key={index}>
+                                <Button
+                                  onClick={() => revealPaths('input', [violation.pointer], violation.pointer)}
+                                  variant="ghost"
+                                  className="w-full justify-start text-left p-2 h-auto text-xs"
+                                  title="Show in graph"
+                                >
+                                  <span className="font-mono text-red-400 mr-2">{violation.pointer || '/'}</span>
+                                  <span className="text-muted-foreground whitespace-normal">{violation.message}</span>
+                                </Button>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </Panel>
@@ -807,53 +1841,170 @@ export default function JsonVisualizer() {
               {/* Controls */}
               <div className="p-4 border-b border-border flex items-center justify-between">
                 <div className="flex items-center space-x-2">
+                  {viewOptions.map(([value, label, Icon]) => (
+                    <Button
+                      key={value}
+                      onClick={() => setView(value)}
+                      variant={view === value ? 'secondary' : 'ghost'}
+                      size="sm"
+                      title={`${label} view`}
+                    >
+                      <Icon size={16} />
+                    </Button>
+                  ))}
+                  {view === 'graph' && (
+                    <>
+                      <Button
+                        onClick={handleZoomIn}
+                        variant="ghost"
+                        size="sm"
+                      >
+                        <ZoomIn size={16} />
+                      </Button>
+                      <Button
+                        onClick={handleZoomOut}
+                        variant="ghost"
+                        size="sm"
+                      >
+                        <ZoomOut size={16} />
+                      </Button>
+                      <Button
+                        onClick={handleResetView}
+                        variant="ghost"
+                        size="sm"
+                      >
+                        <RotateCcw size={16} />
+                      </Button>
+                      <Button
+                        onClick={handleRecenter}
+                        variant="ghost"
+                        size="sm"
+                        className="bg-purple-500/20 text-purple-400 border-purple-500/30 hover:bg-purple-500/30"
+                      >
+                        <Home size={16} className="mr-2" />
+                        Recenter
+                      </Button>
+                    </>
+                  )}
                   <Button
-                    onClick={handleZoomIn}
-                    variant="ghost"
-                    size="sm"
-                  >
-                    <ZoomIn size={16} />
-                  </Button>
-                  <Button
-                    onClick={handleZoomOut}
+                    onClick={collapseAllNodes}
                     variant="ghost"
                     size="sm"
                   >
-                    <ZoomOut size={16} />
+                    Collapse All
                   </Button>
                   <Button
-                    onClick={handleResetView}
+                    onClick={() => expandToDepth(Infinity)}
                     variant="ghost"
                     size="sm"
+                    disabled={!activeGraphValue}
+                    title={`Expand every container, up to ${MAX_EXPANDED_NODES} nodes`}
                   >
-                    <RotateCcw size={16} />
+                    Expand All
                   </Button>
-                  <Button
-                    onClick={handleRecenter}
-                    variant="ghost"
-                    size="sm"
-                    className="bg-purple-500/20 text-purple-400 border-purple-500/30 hover:bg-purple-500/30"
+                  <select
+                    value=""
+                    onChange={(e) => expandToDepth(Number(e.target.value))}
+                    disabled={!activeGraphValue}
+                    title="Expand to depth"
+                    className="bg-background border border-border rounded-md px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
                   >
-                    <Home size={16} className="mr-2" />
-                    Recenter
-                  </Button>
+                    <option value="" disabled>Depth</option>
+                    {expandDepthOptions.map(depth => (
+                      <option key={depth} value={depth}>Depth {depth}</option>
+                    ))}
+                  </select>
+                  <input
+                    value={expandPathInput}
+                    onChange={(e) => {
+                      setExpandPathInput(e.target.value);
+                      setExpandPathError('');
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleExpandPath();
+                      }
+                    }}
+                    placeholder="Expand path, e.g. /users/0"
+                    title={expandPathError || 'Expand down to a JSON Pointer and select it (Enter)'}
+                    className={`w-48 bg-background border rounded-md px-2 py-1 font-mono text-sm text-foreground placeholder-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring ${
+                      expandPathError ? 'border-red-500/50' : 'border-border'
+                    }`}
+                  />
+                  {expandPathError && <span className="text-sm text-red-400 whitespace-nowrap">{expandPathError}</span>}
+                  {view === 'graph' && orientationOptions.map(([value, label, Icon]) => (
+                    <Button
+                      key={value}
+                      onClick={() => setOrientation(value)}
+                      variant={orientation === value ? 'secondary' : 'ghost'}
+                      size="sm"
+                      title={label}
+                    >
+                      <Icon size={16} />
+                    </Button>
+                  ))}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {graphSource === 'query' && 'Query result | '}{view === 'graph' && `Zoom: ${Math.round(zoom * 100)}% | `}Nodes: {nodes.length}
+                </div>
+              </div>
+
+              {/* Search */}
+              <div className="px-4 py-2 border-b border-border flex items-center space-x-2">
+                <div className="flex-1 flex items-center space-x-2 bg-background border border-border rounded-md px-2 focus-within:ring-2 focus-within:ring-ring">
+                  <Search size={14} className="text-muted-foreground" />
+                  <input
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        goToMatch(activeMatch + (e.shiftKey ? -1 : 1));
+                      }
+                    }}
+                    placeholder={searchMode === 'jsonpath' ? '$..book[?(@.price < 10)].title' : searchMode === 'regex' ? '^user_\\d+$' : 'Search keys and values...'}
+                    className="flex-1 bg-transparent py-1 font-mono text-sm text-foreground placeholder-muted-foreground focus:outline-none"
+                  />
+                </div>
+                {searchModeLabels.map(([mode, label]) => (
                   <Button
-                    onClick={collapseAllNodes}
-                    variant="ghost"
+                    key={mode}
+                    onClick={() => setSearchMode(mode)}
+                    variant={searchMode === mode ? 'secondary' : 'ghost'}
                     size="sm"
                   >
-                    Collapse All
+                    {label}
                   </Button>
-                </div>
-                <div className="text-sm text-muted-foreground">
-                  Zoom: {Math.round(zoom * 100)}% | Nodes: {nodes.length}
-                </div>
+                ))}
+                <span className={`text-sm whitespace-nowrap ${search.error ? 'text-red-400' : 'text-muted-foreground'}`}>
+                  {search.error || (searchQuery.trim() ? `${search.matches.length === 0 ? 0 : activeMatch + 1} of ${search.matches.length}` : '')}
+                </span>
+                <Button
+                  onClick={() => goToMatch(activeMatch - 1)}
+                  variant="ghost"
+                  size="sm"
+                  disabled={search.matches.length === 0}
+                  title="Previous match (Shift+Enter)"
+                >
+                  <ChevronUp size={16} />
+                </Button>
+                <Button
+                  onClick={() => goToMatch(activeMatch + 1)}
+                  variant="ghost"
+                  size="sm"
+                  disabled={search.matches.length === 0}
+                  title="Next match (Enter)"
+                >
+                  <ChevronDown size={16} />
+                </Button>
               </div>
 
               {/* Graph Canvas */}
+              {/* Stays mounted behind the other views so its listeners and measurements survive switching */}
               <div 
                 ref={containerRef}
-                className="flex-1 bg-muted/5 overflow-hidden relative"
+                className={`flex-1 bg-muted/5 overflow-hidden relative ${view === 'graph' ? '' : 'hidden'}`}
               >
                 <div ref={exportRef} className="w-full h-full">
                   <svg
@@ -881,15 +2032,15 @@ export default function JsonVisualizer() {
                       </marker>
                     </defs>
                     <g transform={`translate(${pan.x}, ${pan.y}) scale(${zoom})`}>
-                      {renderEdges()}
-                      {nodes.map(node => renderNodeContent(node))}
+                      {view === 'graph' && renderEdges()}
+                      {view === 'graph' && visibleNodes.map(node => renderNodeContent(node))}
                     </g>
                   </svg>
                 </div>
                 
                 {nodes.length === 0 && (
                   <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
-                    {jsonInput.trim() ? 'Invalid JSON format' : 'Enter JSON to visualize'}
+                    {emptyGraphMessage}
                   </div>
                 )}
 
@@ -902,6 +2053,42 @@ export default function JsonVisualizer() {
                   <div>• Pinch to zoom on mobile</div>
                 </div>
               </div>
+
+              {/* Tree, Table and Raw Views */}
+              {view !== 'graph' && (
+                <div className="flex-1 min-h-0 relative">
+                  {view === 'tree' && jsonTree && (
+                    <JsonTreeView
+                      root={jsonTree}
+                      selectedPath={selectedNode}
+                      matchPaths={matchSet}
+                      invalidPaths={new Set(violationsByPath.keys())}
+                      numberLiterals={numberLiterals}
+                      pageSize={CHILD_PAGE_SIZE}
+                      onSelect={selectPath}
+                      onToggle={toggleNodeExpansion}
+                      onShowMore={showMoreChildren}
+                    />
+                  )}
+                  {view === 'table' && jsonTable && (
+                    <JsonTableView
+                      key={jsonTable.path}
+                      table={jsonTable}
+                      numberLiterals={numberLiterals}
+                      selectedPath={selectedNode}
+                      onSelect={selectPath}
+                    />
+                  )}
+                  {view === 'raw' && rawLines.length > 0 && (
+                    <JsonRawView lines={rawLines} selectedPath={selectedNode} onSelect={selectPath} />
+                  )}
+                  {(!activeGraphValue || (view === 'table' && !jsonTable)) && (
+                    <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+                      {activeGraphValue ? 'No array to show as a table' : emptyGraphMessage}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </Panel>
 
@@ -929,9 +2116,32 @@ export default function JsonVisualizer() {
                   <CardContent className="p-6 space-y-4 max-h-96 overflow-auto">
                     <div>
                       <h4 className="text-foreground font-medium mb-2">Value</h4>
-                      {renderValuePreview(selectedNodeData.value)}
+                      {renderValuePreview(selectedNodeData.value, selectedNodeData.id)}
                     </div>
 
+                    {numberLiterals.has(selectedNodeData.id) && (
+                      <div className="flex items-start space-x-2 p-3 rounded-lg border text-sm bg-amber-500/10 border-amber-500/30 text-amber-400">
+                        <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+                        <span>
+                          {getNumberPrecisionWarning(numberLiterals.get(selectedNodeData.id) ?? '')}. Copies and exports keep the original digits.
+                        </span>
+                      </div>
+                    )}
+
+                    {graphSource === 'input' && (
+                      <JsonNodeEditor
+                        key={`${selectedNodeData.id}:${revision}`}
+                        name={selectedNodeData.key}
+                        path={selectedNodeData.id}
+                        value={selectedNodeData.value}
+                        numberLiteral={numberLiterals.get(selectedNodeData.id)}
+                        parentType={selectedNodeData.parent !== undefined
+                          ? (nodeById.get(selectedNodeData.parent)?.type === 'array' ? 'array' : 'object')
+                          : null}
+                        onEdit={handleEdit}
+                      />
+                    )}
+
                     {selectedNodeData.children.length > 0 && (
                       <div>
                         <h4 className="text-foreground font-medium mb-2">
@@ -939,7 +2149,7 @@ export default function JsonVisualizer() {
                         </h4>
                         <div className="space-y-1">
                           {selectedNodeData.children.map(childId => {
-                            const child = nodes.find(n => n.id === childId);
+                            const child = nodeById.get(childId);
                             return child ? (
                               <Button
                                 key={childId}
@@ -0,0 +1,283 @@
+import { Fragment, useState, useMemo, useEffect } from 'react';
+import { Copy, FileText, GitMerge, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Panel, PanelGroup, PanelResizeHandle } from 'react-resizable-panels';
+import { buildMergedText, mergeThreeWay, parseConflictMarkers, resolveConflict } from '@/utils/mergeUtils';
+import { MergeChunk, MergeResolution } from '../types';
+
+const resolutionLabels: Array<[MergeResolution, string]> = [
+  ['ours', 'Ours'],
+  ['theirs', 'Theirs'],
+  ['both', 'Both'],
+  ['base', 'Base'],
+];
+
+const sourceStyles: Record<Extract<MergeChunk, { type: 'stable' }>['source'], string> = {
+  base: 'text-muted-foreground',
+  ours: 'bg-blue-500/10 border-l-2 border-blue-500 text-blue-400',
+  theirs: 'bg-purple-500/10 border-l-2 border-purple-500 text-purple-400',
+  both: 'bg-green-500/10 border-l-2 border-green-500 text-green-400',
+};
+
+export default function MergeView() {
+  const [baseText, setBaseText] = useState('');
+  const [oursText, setOursText] = useState('');
+  const [theirsText, setTheirsText] = useState('');
+  const [resolutions, setResolutions] = useState<Record<number, MergeResolution>>({});
+  const [resultText, setResultText] = useState('');
+  const [showMarkerImport, setShowMarkerImport] = useState(false);
+  const [conflictText, setConflictText] = useState('');
+  const [importError, setImportError] = useState('');
+
+  const chunks = useMemo(() => mergeThreeWay(baseText, oursText, theirsText), [baseText, oursText, theirsText]);
+  const conflictIndices = chunks
+    .map((chunk, index) => (chunk.type === 'conflict' ? index : -1))
+    .filter(index => index >= 0);
+  const unresolvedCount = conflictIndices.filter(index => !resolutions[index]).length;
+
+  // The result pane stays editable; it is regenerated only when the inputs or resolutions change.
+  useEffect(() => {
+    setResultText(buildMergedText(chunks, resolutions));
+  }, [chunks, resolutions]);
+
+  // Chunk indices shift whenever an input changes, so earlier resolutions no longer apply.
+  const updateInput = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setResolutions({});
+  };
+
+  const resolveAll = (resolution: MergeResolution) => {
+    setResolutions(Object.fromEntries(conflictIndices.map(index => [index, resolution])));
+  };
+
+  const handleImportMarkers = () => {
+    try {
+      const sides = parseConflictMarkers(conflictText);
+      if (sides.conflicts === 0) {
+        setImportError('No conflict markers found.');
+        return;
+      }
+      setBaseText(sides.base);
+      setOursText(sides.ours);
+      setTheirsText(sides.theirs);
+      setResolutions({});
+      setImportError('');
+      setShowMarkerImport(false);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Invalid conflict markers');
+    }
+  };
+
+  const handleLoadSample = () => {
+    setBaseText(`const config = {
+  retries: 3,
+  timeout: 1000,
+  verbose: false,
+};`);
+    setOursText(`const config = {
+  retries: 5,
+  timeout: 2000,
+  verbose: false,
+};`);
+    setTheirsText(`const config = {
+  retries: 3,
+  timeout: 5000,
+  verbose: true,
+  logLevel: 'debug',
+};`);
+    setResolutions({});
+  };
+
+  const renderLines = (lines: string[], className: string) => lines.map((line, index) => (
+    <div key={index} className={`px-4 py-0.5 font-mono text-sm whitespace-pre-wrap ${className}`}>
+      {line || ' '}
+    </div>
+  ));
+
+  const renderChunk = (chunk: MergeChunk, index: number) => {
+    if (chunk.type === 'stable') {
+      return (
+        <div key={index} className={sourceStyles[chunk.source]} title={chunk.source === 'base' ? undefined : `From ${chunk.source}`}>
+          {renderLines(chunk.lines, '')}
+        </div>
+      );
+    }
+
+    const resolution = resolutions[index];
+    const conflictNumber = conflictIndices.indexOf(index) + 1;
+
+    return (
+      <div key={index} className="my-2 border border-red-500/30 rounded-lg overflow-hidden">
+        <div className="px-4 py-2 bg-red-500/10 flex items-center justify-between">
+          <span className="text-sm font-medium text-red-400">
+            Conflict {conflictNumber} of {conflictIndices.length}
+            {resolution && <span className="text-muted-foreground font-normal"> · resolved with {resolution}</span>}
+          </span>
+          <div className="flex space-x-1">
+            {resolutionLabels.map(([value, label]) => (
+              <Button
+                key={value}
+                onClick={() => setResolutions(prev => ({ ...prev, [index]: value }))}
+                variant={resolution === value ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7"
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+        {resolution ? (
+          renderLines(resolveConflict(chunk, resolution), 'text-foreground')
+        ) : (
+          <div className="grid grid-cols-3 divide-x divide-border">
+            {(['ours', 'base', 'theirs'] as const).map(side => (
+              <div key={side}>
+                <div className="px-4 py-1 text-xs uppercase text-muted-foreground border-b border-border">{side}</div>
+                {renderLines(chunk[side], side === 'ours' ? 'text-blue-400' : side === 'theirs' ? 'text-purple-400' : 'text-muted-foreground')}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const inputs: Array<[string, string, (value: string) => void]> = [
+    ['Base', baseText, updateInput(setBaseText)],
+    ['Ours', oursText, updateInput(setOursText)],
+    ['Theirs', theirsText, updateInput(setTheirsText)],
+  ];
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Merge Toolbar */}
+      <div className="px-6 py-3 border-b border-border flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Button
+            onClick={handleLoadSample}
+            variant="outline"
+            size="sm"
+            className="bg-blue-500/20 text-blue-400 border-blue-500/30 hover:bg-blue-500/30"
+          >
+            <FileText size={16} className="mr-2" />
+            Load Sample
+          </Button>
+          <Button
+            onClick={() => setShowMarkerImport(!showMarkerImport)}
+            variant={showMarkerImport ? 'secondary' : 'ghost'}
+            size="sm"
+          >
+            <GitMerge size={16} className="mr-2" />
+            Conflict Markers
+          </Button>
+          {conflictIndices.length > 0 && (
+            <>
+              <Button onClick={() => resolveAll('ours')} variant="ghost" size="sm">All Ours</Button>
+              <Button onClick={() => resolveAll('theirs')} variant="ghost" size="sm">All Theirs</Button>
+            </>
+          )}
+        </div>
+        <div className={`text-sm ${unresolvedCount > 0 ? 'text-red-400' : 'text-muted-foreground'}`}>
+          {conflictIndices.length === 0
+            ? 'No conflicts'
+            : `${conflictIndices.length} conflict${conflictIndices.length === 1 ? '' : 's'}, ${unresolvedCount} unresolved`}
+        </div>
+      </div>
+
+      {showMarkerImport && (
+        <div className="p-6 border-b border-border space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-foreground font-medium">Conflicted File</label>
+            <div className="flex space-x-2">
+              <Button onClick={handleImportMarkers} variant="outline" size="sm" disabled={!conflictText.trim()}>
+                Split into Inputs
+              </Button>
+              <Button onClick={() => setShowMarkerImport(false)} variant="ghost" size="sm">
+                <X size={16} />
+              </Button>
+            </div>
+          </div>
+          <textarea
+            value={conflictText}
+            onChange={(e) => {
+              setConflictText(e.target.value);
+              setImportError('');
+            }}
+            placeholder="Paste text containing <<<<<<< / ======= / >>>>>>> markers..."
+            className="w-full h-32 bg-background border border-border rounded-xl p-4 text-foreground placeholder-muted-foreground font-mono text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+          />
+          {importError && (
+            <div className="p-3 rounded-lg border text-sm bg-red-500/10 border-red-500/30 text-red-400">{importError}</div>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1">
+        <PanelGroup direction="vertical">
+          {/* Merge Inputs */}
+          <Panel defaultSize={40} minSize={20}>
+            <PanelGroup direction="horizontal">
+              {inputs.map(([label, value, onChange], index) => (
+                <Fragment key={label}>
+                  {index > 0 && <PanelResizeHandle className="w-2 bg-border hover:bg-border/80 transition-colors" />}
+                  <Panel defaultSize={33} minSize={15}>
+                    <div className="h-full p-6 flex flex-col">
+                      <label className="text-foreground font-medium mb-4">{label}</label>
+                      <textarea
+                        value={value}
+                        onChange={(e) => onChange(e.target.value)}
+                        placeholder={`Paste the ${label.toLowerCase()} version here...`}
+                        className="flex-1 w-full bg-background border border-border rounded-xl p-4 text-foreground placeholder-muted-foreground font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+                      />
+                    </div>
+                  </Panel>
+                </Fragment>
+              ))}
+            </PanelGroup>
+          </Panel>
+
+          <PanelResizeHandle className="h-2 bg-border hover:bg-border/80 transition-colors" />
+
+          {/* Merge Preview and Result */}
+          <Panel defaultSize={60} minSize={30}>
+            <PanelGroup direction="horizontal">
+              <Panel defaultSize={55} minSize={25}>
+                <div className="h-full border-r border-border">
+                  <div className="p-4 border-b border-border">
+                    <h3 className="text-foreground font-medium">Merge</h3>
+                  </div>
+                  <div className="h-[calc(100%-60px)] overflow-auto bg-muted/5 py-2">
+                    {chunks.map(renderChunk)}
+                  </div>
+                </div>
+              </Panel>
+
+              <PanelResizeHandle className="w-2 bg-border hover:bg-border/80 transition-colors" />
+
+              <Panel defaultSize={45} minSize={25}>
+                <div className="h-full p-6 flex flex-col">
+                  <div className="flex items-center justify-between mb-4">
+                    <label className="text-foreground font-medium">Result</label>
+                    <Button
+                      onClick={() => navigator.clipboard.writeText(resultText)}
+                      variant="ghost"
+                      size="sm"
+                    >
+                      <Copy size={16} />
+                    </Button>
+                  </div>
+                  <textarea
+                    value={resultText}
+                    onChange={(e) => setResultText(e.target.value)}
+                    className="flex-1 w-full bg-background border border-border rounded-xl p-4 text-foreground font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+                  />
+                </div>
+              </Panel>
+            </PanelGroup>
+          </Panel>
+        </PanelGroup>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { TableDiff, TableRowDiff } from '../types';
+
+interface TableDiffViewProps {
+  diff: TableDiff;
+  keyColumn?: string;
+  showUnchanged: boolean;
+}
+
+const rowStyles: Record<TableRowDiff['status'], { badge: string; row: string }> = {
+  added: { badge: 'bg-green-500/20 text-green-400', row: 'bg-green-500/10' },
+  removed: { badge: 'bg-red-500/20 text-red-400', row: 'bg-red-500/10 text-muted-foreground line-through' },
+  changed: { badge: 'bg-yellow-500/20 text-yellow-400', row: '' },
+  unchanged: { badge: 'bg-muted text-muted-foreground', row: 'text-muted-foreground' },
+};
+
+const columnStyles = {
+  added: 'bg-green-500/10 text-green-400',
+  removed: 'bg-red-500/10 text-red-400 line-through',
+  unchanged: 'text-foreground',
+};
+
+export default function TableDiffView({ diff, keyColumn, showUnchanged }: TableDiffViewProps) {
+  const countByStatus = (status: TableRowDiff['status']) => diff.rows.filter(row => row.status === status).length;
+  const changedCells = diff.rows.reduce((total, row) => total + row.cells.filter(cell => cell.changed).length, 0);
+  const addedColumns = diff.columns.filter(column => column.status === 'added').length;
+  const removedColumns = diff.columns.filter(column => column.status === 'removed').length;
+  const visibleRows = showUnchanged ? diff.rows : diff.rows.filter(row => row.status !== 'unchanged');
+
+  return (
+    <div className="h-full overflow-auto bg-muted/5">
+      <div className="px-4 py-2 border-b border-border text-sm text-muted-foreground">
+        <span className="text-green-400">{countByStatus('added')} rows added</span>
+        {' · '}
+        <span className="text-red-400">{countByStatus('removed')} rows removed</span>
+        {' · '}
+        <span className="text-yellow-400">{countByStatus('changed')} rows changed ({changedCells} cells)</span>
+        {(addedColumns > 0 || removedColumns > 0) && (
+          <>
+            {' · '}
+            <span>{addedColumns} column{addedColumns === 1 ? '' : 's'} added, {removedColumns} removed</span>
+          </>
+        )}
+        <span className="ml-4">Rows matched by {keyColumn ? <span className="font-mono text-foreground">{keyColumn}</span> : 'position'}</span>
+      </div>
+      <table className="min-w-full font-mono text-sm border-collapse">
+        <thead className="sticky top-0 bg-background">
+          <tr>
+            <th className="px-3 py-1 text-left text-xs text-muted-foreground border-b border-border">{keyColumn ? 'key' : 'row'}</th>
+            <th className="px-3 py-1 border-b border-border" />
+            {diff.columns.map(column => (
+              <th
+                key={column.name}
+                className={`px-3 py-1 text-left font-medium border-b border-border ${columnStyles[column.status]}`}
+                title={column.status === 'unchanged' ? undefined : `Column ${column.status}`}
+              >
+                {column.name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {visibleRows.length === 0 ? (
+            <tr>
+              <td colSpan={diff.columns.length + 2} className="px-3 py-2 text-muted-foreground font-sans">
+                {diff.rows.length === 0 ? 'Both tables are empty' : 'No row differences'}
+              </td>
+            </tr>
+          ) : visibleRows.map(row => (
+            <tr key={`${row.status}-${row.key}`} className={`border-b border-border/50 ${rowStyles[row.status].row}`}>
+              <td className="px-3 py-1 text-muted-foreground whitespace-nowrap">{row.key}</td>
+              <td className="px-3 py-1">
+                <span className={`px-2 rounded-full text-xs no-underline ${rowStyles[row.status].badge}`}>{row.status}</span>
+              </td>
+              {row.cells.map((cell, index) => (
+                <td
+                  key={diff.columns[index].name}
+                  className={`px-3 py-1 whitespace-pre ${cell.changed ? 'bg-yellow-500/10' : ''}`}
+                >
+                  {cell.changed ? (
+                    <>
+                      <span className="text-red-400 line-through">{cell.oldValue}</span>
+                      <span className="text-muted-foreground mx-1">→</span>
+                      <span className="text-green-400">{cell.newValue}</span>
+                    </>
+                  ) : (
+                    cell.newValue ?? cell.oldValue ?? ''
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
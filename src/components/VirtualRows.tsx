@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+
+interface VirtualRowsProps {
+  count: number;
+  rowHeight: number;
+  renderRow: (index: number) => React.ReactNode;
+  scrollRef: React.RefObject<HTMLDivElement>;
+  onScroll?: (event: React.UIEvent<HTMLDivElement>) => void;
+  className?: string;
+  overscan?: number;
+}
+
+/**
+ * Scroll container that only mounts the rows inside the viewport (plus a
+ * small overscan). Rows must all be `rowHeight` pixels tall.
+ */
+export function VirtualRows({ count, rowHeight, renderRow, scrollRef, onScroll, className = '', overscan = 10 }: VirtualRowsProps) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [scrollRef]);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  const rows: React.ReactNode[] = [];
+  for (let index = start; index < end; index++) {
+    rows.push(renderRow(index));
+  }
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={(event) => {
+        setScrollTop(event.currentTarget.scrollTop);
+        onScroll?.(event);
+      }}
+      className={`overflow-auto ${className}`}
+    >
+      <div className="w-max min-w-full" style={{ height: count * rowHeight, paddingTop: start * rowHeight }}>
+        {rows}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Eases items from their previously rendered positions to their new ones.
+ * Items that just appeared grow out of their parent's position, and an
+ * animation interrupted by another layout change continues from wherever
+ * the items currently are.
+ */
+export function useAnimatedLayout<T extends Point>(
+  items: T[],
+  getKey: (item: T) => string,
+  getParentKey: (item: T) => string | undefined,
+  duration = 300
+): T[] {
+  const [positions, setPositions] = useState<Map<string, Point>>(new Map());
+  const renderedRef = useRef<Map<string, Point>>(new Map());
+  const keyFnsRef = useRef({ getKey, getParentKey });
+  keyFnsRef.current = { getKey, getParentKey };
+
+  useLayoutEffect(() => {
+    const { getKey, getParentKey } = keyFnsRef.current;
+    const previous = renderedRef.current;
+    const targets = new Map(items.map(item => [getKey(item), { x: item.x, y: item.y }]));
+    const reduceMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+
+    if (reduceMotion || previous.size === 0) {
+      renderedRef.current = targets;
+      setPositions(targets);
+      return;
+    }
+
+    const starts = new Map(items.map(item => {
+      const key = getKey(item);
+      const parentKey = getParentKey(item);
+      return [key, previous.get(key) ?? (parentKey !== undefined ? previous.get(parentKey) : undefined) ?? targets.get(key)!];
+    }));
+
+    let frame = 0;
+    let startTime: number | null = null;
+    const step = (time: number) => {
+      startTime ??= time;
+      const progress = Math.min(1, (time - startTime) / duration);
+      const eased = 1 - Math.pow(1 - progress, 3);
+      const current = new Map(Array.from(targets, ([key, target]) => {
+        const start = starts.get(key) ?? target;
+        return [key, { x: start.x + (target.x - start.x) * eased, y: start.y + (target.y - start.y) * eased }];
+      }));
+
+      renderedRef.current = current;
+      setPositions(current);
+      if (progress < 1) frame = requestAnimationFrame(step);
+    };
+
+    // Render the start frame before the browser paints so new items never flash at their destination.
+    renderedRef.current = starts;
+    setPositions(starts);
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [items, duration]);
+
+  return items.map(item => {
+    const position = positions.get(getKey(item));
+    return position ? { ...item, x: position.x, y: position.y } : item;
+  });
+}
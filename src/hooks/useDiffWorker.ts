@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import { createLineDiff, createUnifiedDiff, LineDiffOptions, SideBySideDiff } from '@/utils/diffUtils';
+import type { DiffWorkerRequest, DiffWorkerResponse } from '@/workers/diffWorker';
+import { DiffHunk } from '../types';
+
+interface DiffResult {
+  diff: SideBySideDiff;
+  unifiedHunks: DiffHunk[];
+}
+
+const createDiffWorker = () =>
+  new Worker(new URL('../workers/diffWorker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Computes the side-by-side and unified diffs off the main thread. A run
+ * that is still in flight when the inputs change is cancelled by
+ * terminating its worker, since the diff itself cannot be interrupted.
+ */
+export function useDiffWorker(leftText: string, rightText: string, options: LineDiffOptions, context: number) {
+  const [result, setResult] = useState<DiffResult>({ diff: { left: [], right: [] }, unifiedHunks: [] });
+  const [isComputing, setIsComputing] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<number | null>(null);
+  const nextIdRef = useRef(0);
+  const optionsKey = JSON.stringify(options);
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    const parsedOptions: LineDiffOptions = JSON.parse(optionsKey);
+
+    if (typeof Worker === 'undefined') {
+      setResult({
+        diff: createLineDiff(leftText, rightText, parsedOptions),
+        unifiedHunks: createUnifiedDiff(leftText, rightText, { ...parsedOptions, context }),
+      });
+      return;
+    }
+
+    if (pendingRef.current !== null) {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    }
+
+    if (!workerRef.current) {
+      const worker = createDiffWorker();
+      worker.addEventListener('message', (event: MessageEvent<DiffWorkerResponse>) => {
+        if (event.data.id !== pendingRef.current) return;
+        pendingRef.current = null;
+        setResult({ diff: event.data.diff, unifiedHunks: event.data.unifiedHunks });
+        setIsComputing(false);
+      });
+      workerRef.current = worker;
+    }
+
+    const request: DiffWorkerRequest = { id: ++nextIdRef.current, leftText, rightText, options: parsedOptions, context };
+    pendingRef.current = request.id;
+    setIsComputing(true);
+    workerRef.current.postMessage(request);
+  }, [leftText, rightText, optionsKey, context]);
+
+  return { ...result, isComputing };
+}
@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from 'react';
+import { detectDataFormat, parseDataText } from '@/utils/dataFormatUtils';
+import type { JsonParseRequest, JsonParseResponse } from '@/workers/jsonParseWorker';
+import { DataFormat } from '../types';
+
+interface ParsedJson {
+  value: unknown;
+  // Literal text of the numbers `value` can't hold exactly, by JSON Pointer; only found for JSON, JSON5 and TOML input.
+  numberLiterals: Map<string, string>;
+}
+
+interface ParseResult {
+  parsed: ParsedJson | null;
+  error: string;
+  // The format the text was parsed as; with 'auto' this is the detected one.
+  format: DataFormat;
+}
+
+const createParseWorker = () =>
+  new Worker(new URL('../workers/jsonParseWorker.ts', import.meta.url), { type: 'module' });
+
+const parseSync = (text: string, format: DataFormat | 'auto'): ParseResult => {
+  try {
+    const { value, numberLiterals, format: parsedFormat } = parseDataText(text, format);
+    return { parsed: { value, numberLiterals }, error: '', format: parsedFormat };
+  } catch (error) {
+    return {
+      parsed: null,
+      error: error instanceof Error ? error.message : 'Invalid input',
+      format: format === 'auto' ? detectDataFormat(text) : format,
+    };
+  }
+};
+
+// Below this size a round trip to the worker costs more than parsing in place.
+const WORKER_THRESHOLD = 100_000;
+
+/**
+ * Parses JSON, JSON5, YAML, TOML or XML text off the main thread so
+ * multi-megabyte documents don't freeze typing. A parse still running when
+ * the text changes is abandoned by terminating its worker.
+ */
+export function useJsonParser(text: string, format: DataFormat | 'auto' = 'json') {
+  const [result, setResult] = useState<ParseResult>({ parsed: null, error: '', format: 'json' });
+  const [isParsing, setIsParsing] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<number | null>(null);
+  const nextIdRef = useRef(0);
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (pendingRef.current !== null) {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      pendingRef.current = null;
+      setIsParsing(false);
+    }
+
+    if (!text.trim()) {
+      setResult({ parsed: null, error: '', format: format === 'auto' ? 'json' : format });
+      return;
+    }
+
+    if (typeof Worker === 'undefined' || text.length < WORKER_THRESHOLD) {
+      setResult(parseSync(text, format));
+      return;
+    }
+
+    if (!workerRef.current) {
+      const worker = createParseWorker();
+      worker.addEventListener('message', (event: MessageEvent<JsonParseResponse>) => {
+        if (event.data.id !== pendingRef.current) return;
+        pendingRef.current = null;
+        setResult(event.data.error !== undefined
+          ? { parsed: null, error: event.data.error, format: event.data.format }
+          : { parsed: { value: event.data.value, numberLiterals: event.data.numberLiterals ?? new Map() }, error: '', format: event.data.format });
+        setIsParsing(false);
+      });
+      workerRef.current = worker;
+    }
+
+    const request: JsonParseRequest = { id: ++nextIdRef.current, text, format };
+    pendingRef.current = request.id;
+    setIsParsing(true);
+    workerRef.current.postMessage(request);
+  }, [text, format]);
+
+  return { ...result, isParsing };
+}
@@ -5,16 +5,209 @@ export interface UtilityTab {
   component: React.ComponentType;
 }
 
+export type JsonValueType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
 export interface JsonNode {
   key: string;
+  // JSON Pointer of the value.
+  path: string;
   value: any;
-  type: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+  type: JsonValueType;
+  // Entries of an object or array; `children` only holds the ones currently shown.
+  childCount: number;
   children?: JsonNode[];
   isExpanded?: boolean;
 }
 
+export type JsonViewMode = 'graph' | 'tree' | 'table' | 'raw';
+
+export type JsonIndent = 2 | 4 | 'tab';
+
+export interface JsonTableRow {
+  path: string;
+  // One cell per column; undefined where the item has no such key.
+  cells: unknown[];
+}
+
+export interface JsonTable {
+  // JSON Pointer of the tabulated array.
+  path: string;
+  columns: string[];
+  rows: JsonTableRow[];
+}
+
+export interface JsonLine {
+  text: string;
+  // JSON Pointer of the value the line belongs to; closing brackets belong to their container.
+  path: string;
+}
+
+export type InlineGranularity = 'word' | 'char';
+
+export type SyntaxLanguage = 'plaintext' | 'javascript' | 'typescript' | 'json' | 'yaml' | 'sql' | 'python' | 'go';
+
+export type SyntaxTokenKind = 'plain' | 'keyword' | 'literal' | 'string' | 'number' | 'comment' | 'property' | 'function' | 'type' | 'punctuation';
+
+export interface SyntaxToken {
+  text: string;
+  kind: SyntaxTokenKind;
+}
+
+export interface DiffComparisonOptions {
+  ignoreLeadingTrailingWhitespace?: boolean;
+  ignoreAllWhitespace?: boolean;
+  ignoreCase?: boolean;
+  normalizeLineEndings?: boolean;
+  ignoreBlankLines?: boolean;
+}
+
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
 export interface DiffLine {
-  type: 'added' | 'removed' | 'unchanged';
+  type: 'added' | 'removed' | 'unchanged' | 'empty';
   content: string;
-  lineNumber: number;
-}
\ No newline at end of file
+  oldLineNumber?: number;
+  newLineNumber?: number;
+  segments?: DiffSegment[];
+  noNewlineAtEnd?: boolean;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface DiffChangeBlock {
+  start: number;
+  end: number;
+  kind: 'added' | 'removed' | 'modified';
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  modified: number;
+  hunks: number;
+}
+
+export interface PatchFile {
+  oldPath: string;
+  newPath: string;
+  hunks: DiffHunk[];
+}
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+}
+
+export interface TableColumnDiff {
+  name: string;
+  status: 'added' | 'removed' | 'unchanged';
+}
+
+export interface TableCellDiff {
+  oldValue?: string;
+  newValue?: string;
+  changed: boolean;
+}
+
+export interface TableRowDiff {
+  key: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  cells: TableCellDiff[];
+}
+
+export interface TableDiff {
+  columns: TableColumnDiff[];
+  rows: TableRowDiff[];
+}
+
+export type JsonSearchMode = 'text' | 'regex' | 'jsonpath';
+
+export type JsonQueryLanguage = 'jq' | 'jsonpath';
+
+export type DataFormat = 'json' | 'json5' | 'yaml' | 'toml' | 'xml';
+
+export interface JsonSchemaViolation {
+  // JSON Pointer of the value that failed validation.
+  pointer: string;
+  keyword: string;
+  message: string;
+}
+
+export interface JsonDiagnostic {
+  message: string;
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface JsonRepairResult {
+  text: string;
+  changes: string[];
+}
+
+export type TreeOrientation = 'left-right' | 'top-bottom';
+
+export type TypeLanguage = 'typescript' | 'zod' | 'go' | 'rust' | 'python' | 'pydantic';
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface DecodedFile {
+  name: string;
+  size: number;
+  text: string;
+  encoding: TextEncodingName;
+  binary: boolean;
+}
+
+export type FileCompareStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface DirectoryDiffEntry {
+  path: string;
+  status: FileCompareStatus;
+  left?: File;
+  right?: File;
+}
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  status: FileCompareStatus;
+  children?: FileTreeNode[];
+}
+
+export type MergeResolution = 'ours' | 'theirs' | 'both' | 'base';
+
+export type MergeChunk =
+  | { type: 'stable'; source: 'base' | 'ours' | 'theirs' | 'both'; lines: string[] }
+  | { type: 'conflict'; base: string[]; ours: string[]; theirs: string[] };
+
+export type JsonDiffChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface JsonDiffNode {
+  key: string;
+  path: string;
+  change: JsonDiffChange;
+  oldValue?: unknown;
+  newValue?: unknown;
+  children?: JsonDiffNode[];
+}
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+export type TextExportFormat = 'patch' | 'json-patch';
+
+export type ExportFormat = 'png' | 'jpg' | 'pdf' | 'html' | TextExportFormat;
\ No newline at end of file
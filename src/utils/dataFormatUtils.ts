@@ -0,0 +1,190 @@
+import JSON5 from 'json5';
+import YAML from 'yaml';
+import { parse as parseToml, stringify as stringifyToml, TomlDate } from 'smol-toml';
+import { XMLBuilder, XMLParser, XMLValidator } from 'fast-xml-parser';
+import { appendJsonPointer } from './jsonDiffUtils';
+import { findLossyNumbers, isIntegerLiteral, stringifyJsonLossless } from './jsonNumberUtils';
+import { DataFormat } from '../types';
+
+export const dataFormats: Array<{ format: DataFormat; label: string; extension: string; mimeType: string }> = [
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'json5', label: 'JSON5 / JSONC', extension: 'json5', mimeType: 'application/json5' },
+  { format: 'yaml', label: 'YAML', extension: 'yaml', mimeType: 'application/yaml' },
+  { format: 'toml', label: 'TOML', extension: 'toml', mimeType: 'application/toml' },
+  { format: 'xml', label: 'XML', extension: 'xml', mimeType: 'application/xml' },
+];
+
+// Attributes become `@_name` properties and mixed text becomes `#text`, so XML round-trips through the graph.
+const XML_OPTIONS = {
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  textNodeName: '#text',
+  format: true,
+  indentBy: '  ',
+  suppressEmptyNode: true,
+  ignoreDeclaration: true,
+  ignorePiTags: true,
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const TOML_TABLE = /^\s*\[{1,2}[\w."' -]+\]{1,2}\s*(#.*)?$/m;
+const TOML_ASSIGNMENT = /^\s*[\w."'-]+\s*=\s*\S/m;
+const JSON_SCALAR = /^(?:-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)$/;
+
+/**
+ * Guesses the format from the shape of the text without parsing it.
+ * Brace-delimited text is reported as JSON; `parseDataAuto` falls back to
+ * JSON5 when that text turns out to use JSON5/JSONC syntax. Other text is
+ * only JSON when it is a single number, boolean or null, so YAML such as
+ * `2024-01-01` or `- 1` isn't mistaken for it.
+ */
+export const detectDataFormat = (text: string): DataFormat => {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('<')) return 'xml';
+  if (trimmed.startsWith('[') && TOML_TABLE.test(trimmed.split('\n', 1)[0]) && TOML_ASSIGNMENT.test(trimmed)) return 'toml';
+  if (/^[{["]/.test(trimmed) || JSON_SCALAR.test(trimmed.trimEnd())) return 'json';
+  if (trimmed.startsWith('//') || trimmed.startsWith('/*')) return 'json5';
+
+  const firstLine = trimmed.split('\n', 1)[0];
+  if (TOML_ASSIGNMENT.test(firstLine) || (TOML_TABLE.test(text) && TOML_ASSIGNMENT.test(text))) return 'toml';
+  return 'yaml';
+};
+
+/**
+ * Parses TOML into plain JSON values. Dates become their TOML text, since
+ * the graph and the other formats can't show `TomlDate` objects, and integers
+ * outside the safe range become numbers with their literal recorded by JSON
+ * Pointer, as `findLossyNumbers` does for JSON.
+ */
+const parseTomlDocument = (text: string): { value: unknown; numberLiterals: Map<string, string> } => {
+  const numberLiterals = new Map<string, string>();
+  const visit = (current: unknown, pointer: string): unknown => {
+    if (current instanceof TomlDate) return current.toISOString();
+    if (typeof current === 'bigint') {
+      numberLiterals.set(pointer, String(current));
+      return Number(current);
+    }
+    if (Array.isArray(current)) return current.map((item, index) => visit(item, appendJsonPointer(pointer, index)));
+    if (isPlainObject(current)) {
+      return Object.fromEntries(Object.entries(current).map(([key, child]) => [key, visit(child, appendJsonPointer(pointer, key))]));
+    }
+    return current;
+  };
+  const value = visit(parseToml(text, { integersAsBigInt: 'asNeeded' }), '');
+  return { value, numberLiterals };
+};
+
+export const parseDataFormat = (text: string, format: DataFormat): unknown => {
+  switch (format) {
+    case 'json':
+      return JSON.parse(text);
+    case 'json5':
+      return JSON5.parse(text);
+    case 'yaml':
+      return YAML.parse(text);
+    case 'toml':
+      return parseTomlDocument(text).value;
+    case 'xml': {
+      const validation = XMLValidator.validate(text);
+      if (validation !== true) {
+        throw new Error(`${validation.err.msg} (line ${validation.err.line}, column ${validation.err.col})`);
+      }
+      return new XMLParser(XML_OPTIONS).parse(text);
+    }
+  }
+};
+
+/** Parses text in its detected format, reporting which format was used. */
+export const parseDataAuto = (text: string): { value: unknown; format: DataFormat } => {
+  const format = detectDataFormat(text);
+  if (format !== 'json') return { value: parseDataFormat(text, format), format };
+
+  try {
+    return { value: JSON.parse(text), format };
+  } catch (error) {
+    try {
+      return { value: JSON5.parse(text), format: 'json5' };
+    } catch {
+      // Report the strict JSON error, since that is what the text most likely meant to be.
+      throw error;
+    }
+  }
+};
+
+/**
+ * Parses text in the given or detected format. `numberLiterals` holds the
+ * literal text of the numbers the value can't hold exactly, by JSON Pointer;
+ * YAML and XML input has none.
+ */
+export const parseDataText = (
+  text: string,
+  format: DataFormat | 'auto'
+): { value: unknown; format: DataFormat; numberLiterals: Map<string, string> } => {
+  if (format === 'toml' || (format === 'auto' && detectDataFormat(text) === 'toml')) {
+    return { ...parseTomlDocument(text), format: 'toml' };
+  }
+  const result = format === 'auto' ? parseDataAuto(text) : { value: parseDataFormat(text, format), format };
+  const numberLiterals = result.format === 'json' || result.format === 'json5' ? findLossyNumbers(text) : new Map<string, string>();
+  return { ...result, numberLiterals };
+};
+
+const INT64_MAX = 2n ** 63n - 1n;
+
+// Whether `stringifyDataFormat` writes a number literal exactly: YAML and TOML take big integers, XML takes any text.
+const isWrittenExactly = (literal: string, format: DataFormat) => {
+  if (format === 'yaml') return isIntegerLiteral(literal);
+  if (format === 'toml') return isIntegerLiteral(literal) && BigInt(literal) <= INT64_MAX && BigInt(literal) >= -INT64_MAX - 1n;
+  return true;
+};
+
+/** The number literals `stringifyDataFormat` has to round when writing `format`. */
+export const getRoundedNumbers = (numberLiterals: Map<string, string>, format: DataFormat): string[] =>
+  Array.from(numberLiterals.values()).filter(literal => !isWrittenExactly(literal, format));
+
+// Swaps numbers for values the YAML, TOML and XML serializers write as the original literal.
+const withExactNumbers = (value: unknown, numberLiterals: Map<string, string>, format: DataFormat): unknown => {
+  const visit = (current: unknown, pointer: string): unknown => {
+    if (typeof current === 'number') {
+      const literal = numberLiterals.get(pointer);
+      if (literal === undefined || Number(literal) !== current || !isWrittenExactly(literal, format)) return current;
+      return format === 'xml' ? literal : BigInt(literal);
+    }
+    if (Array.isArray(current)) return current.map((item, index) => visit(item, appendJsonPointer(pointer, index)));
+    if (isPlainObject(current)) {
+      return Object.fromEntries(Object.entries(current).map(([key, child]) => [key, visit(child, appendJsonPointer(pointer, key))]));
+    }
+    return current;
+  };
+  return numberLiterals.size > 0 ? visit(value, '') : value;
+};
+
+/**
+ * Writes a value in the given format. `numberLiterals` (see
+ * `findLossyNumbers`) are written as their original text wherever the
+ * format can hold them; `getRoundedNumbers` tells which ones it can't.
+ */
+export const stringifyDataFormat = (value: unknown, format: DataFormat, numberLiterals = new Map<string, string>()): string => {
+  switch (format) {
+    case 'json':
+      return stringifyJsonLossless(value, numberLiterals, 2);
+    case 'json5':
+      // JSON5 can't write big numbers as they are, but JSON is valid JSON5.
+      return numberLiterals.size > 0 ? stringifyJsonLossless(value, numberLiterals, 2) : JSON5.stringify(value, null, 2);
+    case 'yaml':
+      return YAML.stringify(withExactNumbers(value, numberLiterals, format));
+    case 'toml':
+      if (!isPlainObject(value)) throw new Error('TOML documents must have an object at the root');
+      return stringifyToml(withExactNumbers(value, numberLiterals, format) as Record<string, unknown>);
+    case 'xml': {
+      const exact = withExactNumbers(value, numberLiterals, format);
+      // XML needs exactly one root element; anything else is wrapped in <root>.
+      const keys = isPlainObject(exact) ? Object.keys(exact) : [];
+      const document = isPlainObject(exact) && keys.length === 1 && isPlainObject(exact[keys[0]])
+        ? exact
+        : { root: Array.isArray(exact) ? { item: exact } : exact };
+      return new XMLBuilder(XML_OPTIONS).build(document);
+    }
+  }
+};
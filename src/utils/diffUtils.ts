@@ -0,0 +1,552 @@
+import { DiffChangeBlock, DiffComparisonOptions, DiffHunk, DiffStats, DiffLine, DiffSegment, InlineGranularity } from '../types';
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffEdit {
+  op: DiffOperation;
+  oldIndex: number;
+  newIndex: number;
+  // Set on blank-line insertions and deletions that `ignoreBlankLines` excludes from the comparison.
+  ignored?: boolean;
+}
+
+export interface SideBySideDiff {
+  left: DiffLine[];
+  right: DiffLine[];
+}
+
+export interface LineDiffOptions extends DiffComparisonOptions {
+  inlineGranularity?: InlineGranularity;
+}
+
+export interface UnifiedDiffOptions extends LineDiffOptions {
+  context?: number;
+}
+
+export interface FileLines {
+  lines: string[];
+  endsWithNewline: boolean;
+}
+
+type Equals<T> = (a: T, b: T) => boolean;
+
+const defaultEquals = <T>(a: T, b: T) => a === b;
+
+// Finds the middle snake of the shortest edit path between a[aLo..aHi) and b[bLo..bHi)
+// (Myers 1986, section 4b). Returns the snake's start and end in absolute indices.
+const findMiddleSnake = <T>(
+  a: T[],
+  b: T[],
+  aLo: number,
+  aHi: number,
+  bLo: number,
+  bHi: number,
+  equals: Equals<T>
+): [number, number, number, number] => {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const max = Math.ceil((n + m) / 2);
+  const offset = max + 1;
+  const forward = new Int32Array(2 * offset + 1);
+  const backward = new Int32Array(2 * offset + 1);
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && equals(a[aLo + x], b[bLo + y])) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+
+      const reverseK = delta - k;
+      if (odd && reverseK >= -(d - 1) && reverseK <= d - 1 && x + backward[offset + reverseK] >= n) {
+        return [aLo + startX, bLo + startY, aLo + x, bLo + y];
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+        ? backward[offset + k + 1]
+        : backward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && equals(a[aHi - 1 - x], b[bHi - 1 - y])) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+
+      const forwardK = delta - k;
+      if (!odd && forwardK >= -d && forwardK <= d && x + forward[offset + forwardK] >= n) {
+        return [aHi - x, bHi - y, aHi - startX, bHi - startY];
+      }
+    }
+  }
+
+  // Unreachable for well-formed input: the paths always meet by d = max.
+  return [aLo, bLo, aLo, bLo];
+};
+
+/**
+ * Computes a minimal edit script between two sequences using Myers' O(ND)
+ * algorithm in linear space. Edits are returned in order; `delete` entries
+ * carry the position in `b` they occur at and `insert` entries the position in `a`.
+ */
+export const diffSequences = <T>(a: T[], b: T[], equals: Equals<T> = defaultEquals): DiffEdit[] => {
+  const matches: Array<[number, number]> = [];
+
+  const collectMatches = (aLo: number, aHi: number, bLo: number, bHi: number) => {
+    while (aLo < aHi && bLo < bHi && equals(a[aLo], b[bLo])) {
+      matches.push([aLo++, bLo++]);
+    }
+
+    let suffix = 0;
+    while (aLo < aHi - suffix && bLo < bHi - suffix && equals(a[aHi - 1 - suffix], b[bHi - 1 - suffix])) {
+      suffix++;
+    }
+
+    if (aLo < aHi - suffix && bLo < bHi - suffix) {
+      const [x, y, u, v] = findMiddleSnake(a, b, aLo, aHi - suffix, bLo, bHi - suffix, equals);
+      const isProgress = !(x === aLo && y === bLo && u === aHi - suffix && v === bHi - suffix);
+
+      if (isProgress) {
+        collectMatches(aLo, x, bLo, y);
+        for (let i = 0; i < u - x; i++) {
+          matches.push([x + i, y + i]);
+        }
+        collectMatches(u, aHi - suffix, v, bHi - suffix);
+      }
+    }
+
+    for (let i = suffix; i > 0; i--) {
+      matches.push([aHi - i, bHi - i]);
+    }
+  };
+
+  collectMatches(0, a.length, 0, b.length);
+
+  const edits: DiffEdit[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  const pushChanges = (oldEnd: number, newEnd: number) => {
+    while (oldIndex < oldEnd) {
+      edits.push({ op: 'delete', oldIndex: oldIndex++, newIndex });
+    }
+    while (newIndex < newEnd) {
+      edits.push({ op: 'insert', oldIndex, newIndex: newIndex++ });
+    }
+  };
+
+  matches.forEach(([matchOld, matchNew]) => {
+    pushChanges(matchOld, matchNew);
+    edits.push({ op: 'equal', oldIndex: oldIndex++, newIndex: newIndex++ });
+  });
+  pushChanges(a.length, b.length);
+
+  return edits;
+};
+
+export const splitLines = (text: string): string[] => text.split('\n');
+
+// Splits text the way patch tools see a file: a trailing newline terminates the last line rather than starting a new one.
+export const splitFileLines = (text: string): FileLines => {
+  if (text === '') return { lines: [], endsWithNewline: true };
+
+  const lines = text.split('\n');
+  const endsWithNewline = lines[lines.length - 1] === '';
+  if (endsWithNewline) lines.pop();
+  return { lines, endsWithNewline };
+};
+
+/**
+ * Reduces a line to the key it is compared by. Only the key is affected;
+ * the diff still displays the original line.
+ */
+export const normalizeLine = (line: string, options: DiffComparisonOptions): string => {
+  let key = options.normalizeLineEndings ? line.replace(/\r$/, '') : line;
+  if (options.ignoreAllWhitespace) {
+    key = key.replace(/\s+/g, '');
+  } else if (options.ignoreLeadingTrailingWhitespace) {
+    key = key.trim();
+  }
+  return options.ignoreCase ? key.toLowerCase() : key;
+};
+
+const tokenize = (line: string, granularity: InlineGranularity): string[] =>
+  granularity === 'char' ? Array.from(line) : line.match(/\w+|\s+|[^\w\s]/g) ?? [];
+
+const appendSegment = (segments: DiffSegment[], text: string, changed: boolean) => {
+  const last = segments[segments.length - 1];
+  if (last && last.changed === changed) {
+    last.text += text;
+  } else {
+    segments.push({ text, changed });
+  }
+};
+
+/**
+ * Diffs a removed/added line pair token by token, returning the segments of
+ * each side with the tokens that differ marked as changed.
+ */
+export const computeInlineSegments = (
+  oldLine: string,
+  newLine: string,
+  granularity: InlineGranularity = 'word',
+  options: DiffComparisonOptions = {}
+): [DiffSegment[], DiffSegment[]] => {
+  const oldTokens = tokenize(oldLine, granularity);
+  const newTokens = tokenize(newLine, granularity);
+  const oldSegments: DiffSegment[] = [];
+  const newSegments: DiffSegment[] = [];
+  const ignoresWhitespace = options.ignoreAllWhitespace || options.ignoreLeadingTrailingWhitespace;
+  const tokensEqual = (a: string, b: string) =>
+    normalizeLine(a, options) === normalizeLine(b, options) || (!!ignoresWhitespace && !a.trim() && !b.trim());
+
+  diffSequences(oldTokens, newTokens, tokensEqual).forEach(edit => {
+    if (edit.op === 'equal') {
+      appendSegment(oldSegments, oldTokens[edit.oldIndex], false);
+      appendSegment(newSegments, newTokens[edit.newIndex], false);
+    } else if (edit.op === 'delete') {
+      appendSegment(oldSegments, oldTokens[edit.oldIndex], true);
+    } else {
+      appendSegment(newSegments, newTokens[edit.newIndex], true);
+    }
+  });
+
+  return [oldSegments, newSegments];
+};
+
+/**
+ * Aligns an edit script into two equal-length columns. Within each changed
+ * block, removed and added lines share rows; the shorter side is padded with
+ * `empty` filler rows so unchanged lines always line up.
+ */
+export const buildSideBySide = (
+  edits: DiffEdit[],
+  leftLines: string[],
+  rightLines: string[],
+  options: LineDiffOptions = {}
+): SideBySideDiff => {
+  const { inlineGranularity = 'word' } = options;
+  const left: DiffLine[] = [];
+  const right: DiffLine[] = [];
+  let removed: DiffEdit[] = [];
+  let added: DiffEdit[] = [];
+
+  const flushBlock = () => {
+    const rows = Math.max(removed.length, added.length);
+    for (let i = 0; i < rows; i++) {
+      const removedEdit = removed[i];
+      const addedEdit = added[i];
+      const removedLine: DiffLine = removedEdit
+        ? { type: 'removed', content: leftLines[removedEdit.oldIndex], oldLineNumber: removedEdit.oldIndex + 1 }
+        : { type: 'empty', content: '' };
+      const addedLine: DiffLine = addedEdit
+        ? { type: 'added', content: rightLines[addedEdit.newIndex], newLineNumber: addedEdit.newIndex + 1 }
+        : { type: 'empty', content: '' };
+
+      // Only rows that pair a removal with an addition are modifications worth highlighting inline.
+      if (removedEdit && addedEdit) {
+        [removedLine.segments, addedLine.segments] =
+          computeInlineSegments(removedLine.content, addedLine.content, inlineGranularity, options);
+      }
+
+      left.push(removedLine);
+      right.push(addedLine);
+    }
+    removed = [];
+    added = [];
+  };
+
+  edits.forEach(edit => {
+    if (edit.ignored) {
+      flushBlock();
+      if (edit.op === 'delete') {
+        left.push({ type: 'unchanged', content: leftLines[edit.oldIndex], oldLineNumber: edit.oldIndex + 1 });
+        right.push({ type: 'empty', content: '' });
+      } else {
+        left.push({ type: 'empty', content: '' });
+        right.push({ type: 'unchanged', content: rightLines[edit.newIndex], newLineNumber: edit.newIndex + 1 });
+      }
+    } else if (edit.op === 'delete') {
+      removed.push(edit);
+    } else if (edit.op === 'insert') {
+      added.push(edit);
+    } else {
+      flushBlock();
+      const oldLineNumber = edit.oldIndex + 1;
+      const newLineNumber = edit.newIndex + 1;
+      left.push({ type: 'unchanged', content: leftLines[edit.oldIndex], oldLineNumber, newLineNumber });
+      right.push({ type: 'unchanged', content: rightLines[edit.newIndex], oldLineNumber, newLineNumber });
+    }
+  });
+  flushBlock();
+
+  return { left, right };
+};
+
+// Maps each distinct line to a small integer so the diff compares numbers, not strings.
+const internLines = (leftLines: string[], rightLines: string[]): [number[], number[]] => {
+  const ids = new Map<string, number>();
+  const intern = (line: string) => {
+    let id = ids.get(line);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(line, id);
+    }
+    return id;
+  };
+  return [leftLines.map(intern), rightLines.map(intern)];
+};
+
+/**
+ * Diffs two lists of comparison keys. With `ignoreBlankLines`, blank keys are
+ * left out of the diff and woven back in afterwards: blank lines present on
+ * both sides pair up as equal, the rest become `ignored` edits.
+ */
+const diffKeys = (leftKeys: string[], rightKeys: string[], ignoreBlankLines = false): DiffEdit[] => {
+  const [leftIds, rightIds] = internLines(leftKeys, rightKeys);
+  if (!ignoreBlankLines) return diffSequences(leftIds, rightIds);
+
+  const keptIndices = (keys: string[]) => {
+    const kept: number[] = [];
+    keys.forEach((key, index) => {
+      if (key.trim() !== '') kept.push(index);
+    });
+    return kept;
+  };
+  const leftKept = keptIndices(leftKeys);
+  const rightKept = keptIndices(rightKeys);
+  const edits: DiffEdit[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  const pushBlankLines = (oldEnd: number, newEnd: number) => {
+    while (oldIndex < oldEnd && newIndex < newEnd) {
+      edits.push({ op: 'equal', oldIndex: oldIndex++, newIndex: newIndex++ });
+    }
+    while (oldIndex < oldEnd) {
+      edits.push({ op: 'delete', oldIndex: oldIndex++, newIndex, ignored: true });
+    }
+    while (newIndex < newEnd) {
+      edits.push({ op: 'insert', oldIndex, newIndex: newIndex++, ignored: true });
+    }
+  };
+
+  diffSequences(leftKept.map(index => leftIds[index]), rightKept.map(index => rightIds[index])).forEach(edit => {
+    if (edit.op === 'equal') {
+      pushBlankLines(leftKept[edit.oldIndex], rightKept[edit.newIndex]);
+      edits.push({ op: 'equal', oldIndex: oldIndex++, newIndex: newIndex++ });
+    } else if (edit.op === 'delete') {
+      pushBlankLines(leftKept[edit.oldIndex], newIndex);
+      edits.push({ op: 'delete', oldIndex: oldIndex++, newIndex });
+    } else {
+      pushBlankLines(oldIndex, rightKept[edit.newIndex]);
+      edits.push({ op: 'insert', oldIndex, newIndex: newIndex++ });
+    }
+  });
+  pushBlankLines(leftKeys.length, rightKeys.length);
+
+  return edits;
+};
+
+export const diffLines = (leftLines: string[], rightLines: string[], options: DiffComparisonOptions = {}): DiffEdit[] => {
+  const toKey = (line: string) => normalizeLine(line, options);
+  return diffKeys(leftLines.map(toKey), rightLines.map(toKey), options.ignoreBlankLines);
+};
+
+export const createLineDiff = (leftText: string, rightText: string, options: LineDiffOptions = {}): SideBySideDiff => {
+  const leftLines = splitLines(leftText);
+  const rightLines = splitLines(rightText);
+  return buildSideBySide(diffLines(leftLines, rightLines, options), leftLines, rightLines, options);
+};
+
+/**
+ * Groups an edit script into unified-diff hunks, keeping `context` unchanged
+ * lines around each change and merging changes whose context would overlap.
+ */
+export const buildHunks = (
+  edits: DiffEdit[],
+  leftLines: string[],
+  rightLines: string[],
+  options: UnifiedDiffOptions = {}
+): DiffHunk[] => {
+  const { context = 3, inlineGranularity = 'word' } = options;
+  const ranges: Array<[number, number]> = [];
+
+  edits.forEach((edit, index) => {
+    if (edit.op === 'equal' || edit.ignored) return;
+    const last = ranges[ranges.length - 1];
+    if (last && index - last[1] - 1 <= context * 2) {
+      last[1] = index;
+    } else {
+      ranges.push([index, index]);
+    }
+  });
+
+  return ranges.map(([first, last]) => {
+    const from = Math.max(0, first - context);
+    const to = Math.min(edits.length - 1, last + context);
+    const hunkEdits = edits.slice(from, to + 1);
+    const oldLines = hunkEdits.filter(edit => edit.op !== 'insert').length;
+    const newLines = hunkEdits.filter(edit => edit.op !== 'delete').length;
+    const lines: DiffLine[] = [];
+    let removed: DiffLine[] = [];
+    let added: DiffLine[] = [];
+
+    const flushBlock = () => {
+      for (let i = 0; i < Math.min(removed.length, added.length); i++) {
+        [removed[i].segments, added[i].segments] =
+          computeInlineSegments(removed[i].content, added[i].content, inlineGranularity, options);
+      }
+      lines.push(...removed, ...added);
+      removed = [];
+      added = [];
+    };
+
+    hunkEdits.forEach(edit => {
+      if (edit.ignored) {
+        flushBlock();
+        lines.push(edit.op === 'delete'
+          ? { type: 'unchanged', content: leftLines[edit.oldIndex], oldLineNumber: edit.oldIndex + 1 }
+          : { type: 'unchanged', content: rightLines[edit.newIndex], newLineNumber: edit.newIndex + 1 });
+      } else if (edit.op === 'delete') {
+        removed.push({ type: 'removed', content: leftLines[edit.oldIndex], oldLineNumber: edit.oldIndex + 1 });
+      } else if (edit.op === 'insert') {
+        added.push({ type: 'added', content: rightLines[edit.newIndex], newLineNumber: edit.newIndex + 1 });
+      } else {
+        flushBlock();
+        lines.push({
+          type: 'unchanged',
+          content: leftLines[edit.oldIndex],
+          oldLineNumber: edit.oldIndex + 1,
+          newLineNumber: edit.newIndex + 1,
+        });
+      }
+    });
+    flushBlock();
+
+    // An empty range is anchored to the line before it, as in GNU diff.
+    return {
+      oldStart: oldLines === 0 ? edits[from].oldIndex : edits[from].oldIndex + 1,
+      oldLines,
+      newStart: newLines === 0 ? edits[from].newIndex : edits[from].newIndex + 1,
+      newLines,
+      lines,
+    };
+  });
+};
+
+/**
+ * Computes unified-diff hunks over file lines. A final line without a
+ * trailing newline only matches another unterminated final line, and is
+ * flagged with `noNewlineAtEnd` so it can be rendered as in `git diff`.
+ */
+export const createUnifiedDiff = (leftText: string, rightText: string, options: UnifiedDiffOptions = {}): DiffHunk[] => {
+  const left = splitFileLines(leftText);
+  const right = splitFileLines(rightText);
+  const keyLines = ({ lines, endsWithNewline }: FileLines) => {
+    const keys = lines.map(line => normalizeLine(line, options));
+    return endsWithNewline ? keys : [...keys.slice(0, -1), `${keys[keys.length - 1]}\u0000`];
+  };
+  const edits = diffKeys(keyLines(left), keyLines(right), options.ignoreBlankLines);
+  const hunks = buildHunks(edits, left.lines, right.lines, options);
+
+  hunks.forEach(hunk => hunk.lines.forEach(line => {
+    const isLastOld = line.type !== 'added' && line.oldLineNumber === left.lines.length && !left.endsWithNewline;
+    const isLastNew = line.type !== 'removed' && line.newLineNumber === right.lines.length && !right.endsWithNewline;
+    if (isLastOld || isLastNew) line.noNewlineAtEnd = true;
+  }));
+
+  return hunks;
+};
+
+const formatRange = (start: number, count: number) => count === 1 ? `${start}` : `${start},${count}`;
+
+export const formatHunkHeader = (hunk: DiffHunk) =>
+  `@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(hunk.newStart, hunk.newLines)} @@`;
+
+/**
+ * Renders hunks as a unified diff that `git apply` and `patch -p1` accept.
+ * Hunks computed with comparison options describe a loose diff and will not
+ * reproduce the modified text exactly. Returns an empty string when there
+ * are no changes.
+ */
+export const formatUnifiedPatch = (hunks: DiffHunk[], path = 'file.txt'): string => {
+  if (hunks.length === 0) return '';
+
+  const output = [`--- a/${path}`, `+++ b/${path}`];
+  hunks.forEach(hunk => {
+    output.push(formatHunkHeader(hunk));
+    hunk.lines.forEach(line => {
+      const prefix = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+      output.push(`${prefix}${line.content}`);
+      if (line.noNewlineAtEnd) output.push('\\ No newline at end of file');
+    });
+  });
+
+  return `${output.join('\n')}\n`;
+};
+
+/**
+ * Groups consecutive rows that contain a removal or an addition into blocks.
+ * Rows are indices into whatever list the caller renders, so the same blocks
+ * drive change navigation and the overview ruler.
+ */
+export const findChangeBlocks = (rows: Array<{ removed: boolean; added: boolean }>): DiffChangeBlock[] => {
+  const blocks: DiffChangeBlock[] = [];
+  let current: { start: number; removed: boolean; added: boolean } | null = null;
+
+  const close = (end: number) => {
+    if (!current) return;
+    const kind = current.removed && current.added ? 'modified' : current.added ? 'added' : 'removed';
+    blocks.push({ start: current.start, end, kind });
+    current = null;
+  };
+
+  rows.forEach((row, index) => {
+    if (!row.removed && !row.added) {
+      close(index - 1);
+      return;
+    }
+    if (!current) current = { start: index, removed: false, added: false };
+    current.removed ||= row.removed;
+    current.added ||= row.added;
+  });
+  close(rows.length - 1);
+
+  return blocks;
+};
+
+export const getSideBySideRows = (diff: SideBySideDiff) =>
+  diff.left.map((line, index) => ({ removed: line.type === 'removed', added: diff.right[index].type === 'added' }));
+
+/**
+ * Counts changed side-by-side rows. A row with a removal on the left and an
+ * addition on the right is one modified line rather than one of each.
+ */
+export const getDiffStats = (diff: SideBySideDiff, hunks: DiffHunk[]): DiffStats => {
+  const stats: DiffStats = { added: 0, removed: 0, modified: 0, hunks: hunks.length };
+
+  getSideBySideRows(diff).forEach(row => {
+    if (row.removed && row.added) {
+      stats.modified++;
+    } else if (row.removed) {
+      stats.removed++;
+    } else if (row.added) {
+      stats.added++;
+    }
+  });
+
+  return stats;
+};
@@ -42,6 +42,48 @@ export const exportAsPDF = async (element: HTMLElement, filename: string) => {
   }
 };
 
+// Colors of the `diff-*` classes in exported diffs; no class in the app itself starts with `diff-`.
+const DIFF_STYLES = `
+        .diff-added { background-color: #d4edda; color: #155724; }
+        .diff-removed { background-color: #f8d7da; color: #721c24; }
+        .diff-unchanged { background-color: #f8f9fa; color: #495057; }
+        .diff-empty { background-color: #e9ecef; color: #adb5bd; }
+        .diff-added .diff-change { background-color: #a3cfbb; }
+        .diff-removed .diff-change { background-color: #f1aeb5; }`;
+
+// html2canvas renders at twice the size, and browsers refuse canvases much taller than 16k pixels.
+const MAX_CAPTURE_HEIGHT = 8000;
+
+/**
+ * Mounts HTML export content off screen while `capture` runs, for image and
+ * PDF exports of views that don't keep all of their content in the DOM
+ * (e.g. virtualized rows). `content` must be escaped; content taller than
+ * a canvas can hold is cut off with a note.
+ */
+export const captureHTML = async (content: string, capture: (element: HTMLElement) => Promise<void>) => {
+  const element = document.createElement('div');
+  element.style.cssText = 'position: absolute; left: -10000px; top: 0; width: 1200px; padding: 20px; background: #fff; color: #212529; line-height: 1.6; font-family: -apple-system, BlinkMacSystemFont, \'Segoe UI\', Roboto, sans-serif;';
+  element.innerHTML = `<style>${DIFF_STYLES}</style>${content}`;
+  document.body.appendChild(element);
+  if (element.offsetHeight > MAX_CAPTURE_HEIGHT) {
+    element.insertAdjacentHTML('afterbegin', '<p style="color: #721c24;"><strong>Only the beginning fits in an image. Export as HTML for the complete content.</strong></p>');
+    element.style.height = `${MAX_CAPTURE_HEIGHT}px`;
+    element.style.overflow = 'hidden';
+  }
+  try {
+    await capture(element);
+  } finally {
+    element.remove();
+  }
+};
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
 export const exportAsHTML = (content: string, filename: string) => {
   const htmlContent = `
 <!DOCTYPE html>
@@ -58,9 +100,7 @@ export const exportAsHTML = (content: string, filename: string) => {
         }
         .container { max-width: 1200px; margin: 0 auto; }
         pre { background: #f5f5f5; padding: 15px; border-radius: 5px; overflow-x: auto; }
-        .diff-added { background-color: #d4edda; color: #155724; }
-        .diff-removed { background-color: #f8d7da; color: #721c24; }
-        .diff-unchanged { background-color: #f8f9fa; color: #495057; }
+${DIFF_STYLES}
     </style>
 </head>
 <body>
@@ -78,4 +118,13 @@ export const exportAsHTML = (content: string, filename: string) => {
   link.href = URL.createObjectURL(blob);
   link.click();
   URL.revokeObjectURL(link.href);
+};
+
+export const exportAsText = (content: string, filename: string, extension: string, mimeType = 'text/plain') => {
+  const blob = new Blob([content], { type: mimeType });
+  const link = document.createElement('a');
+  link.download = `${filename}.${extension}`;
+  link.href = URL.createObjectURL(blob);
+  link.click();
+  URL.revokeObjectURL(link.href);
 };
\ No newline at end of file
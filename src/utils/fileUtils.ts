@@ -0,0 +1,193 @@
+import { DecodedFile, DirectoryDiffEntry, FileCompareStatus, FileTreeNode, TextEncodingName } from '../types';
+
+// Same window git uses when deciding whether a file is binary.
+const BINARY_SNIFF_BYTES = 8000;
+// Files compared at once, so a large directory isn't read into memory in one go.
+const COMPARE_CONCURRENCY = 4;
+
+export const detectEncoding = (bytes: Uint8Array): TextEncodingName => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  // BOM-less UTF-16 text has a NUL in every other byte for ASCII characters.
+  const sample = bytes.subarray(0, BINARY_SNIFF_BYTES);
+  if (sample.length >= 4) {
+    let evenNulls = 0;
+    let oddNulls = 0;
+    sample.forEach((byte, index) => {
+      if (byte !== 0) return;
+      if (index % 2 === 0) evenNulls++;
+      else oddNulls++;
+    });
+    const half = sample.length / 2;
+    if (oddNulls > half * 0.9 && evenNulls === 0) return 'utf-16le';
+    if (evenNulls > half * 0.9 && oddNulls === 0) return 'utf-16be';
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+/**
+ * Treats a file as binary when its leading bytes contain a NUL, or when they
+ * are dominated by control characters. UTF-16 text is exempt from the NUL check.
+ */
+export const isBinaryContent = (bytes: Uint8Array, encoding: TextEncodingName): boolean => {
+  if (encoding === 'utf-16le' || encoding === 'utf-16be') return false;
+
+  const sample = bytes.subarray(0, BINARY_SNIFF_BYTES);
+  let controlBytes = 0;
+  for (const byte of sample) {
+    if (byte === 0) return true;
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c && byte !== 0x1b) {
+      controlBytes++;
+    }
+  }
+  return sample.length > 0 && controlBytes / sample.length > 0.1;
+};
+
+export const readFileContent = async (file: File): Promise<DecodedFile> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const encoding = detectEncoding(bytes);
+  const binary = isBinaryContent(bytes, encoding);
+
+  return {
+    name: file.name,
+    size: file.size,
+    // TextDecoder strips a matching BOM, so it never shows up in the panes.
+    text: binary ? '' : new TextDecoder(encoding).decode(bytes),
+    encoding,
+    binary,
+  };
+};
+
+const readDirectoryBatch = (reader: FileSystemDirectoryReader) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readEntryFile = (entry: FileSystemFileEntry) =>
+  new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+/**
+ * Recursively collects the files under a dropped directory, keyed by their
+ * path relative to that directory.
+ */
+export const readDirectoryEntry = async (directory: FileSystemDirectoryEntry): Promise<Map<string, File>> => {
+  const files = new Map<string, File>();
+
+  const walk = async (entry: FileSystemDirectoryEntry, prefix: string) => {
+    const reader = entry.createReader();
+    // readEntries returns results in batches until it yields an empty one.
+    for (let batch = await readDirectoryBatch(reader); batch.length > 0; batch = await readDirectoryBatch(reader)) {
+      for (const child of batch) {
+        const path = `${prefix}${child.name}`;
+        if (child.isDirectory) {
+          await walk(child as FileSystemDirectoryEntry, `${path}/`);
+        } else if (child.isFile) {
+          files.set(path, await readEntryFile(child as FileSystemFileEntry));
+        }
+      }
+    }
+  };
+
+  await walk(directory, '');
+  return files;
+};
+
+/**
+ * Keys files chosen through a `webkitdirectory` input by their path relative
+ * to the selected directory, which the browser reports as the first segment.
+ */
+export const collectDirectoryInputFiles = (fileList: FileList): { name: string; files: Map<string, File> } => {
+  const files = new Map<string, File>();
+  let name = '';
+
+  Array.from(fileList).forEach(file => {
+    const [root, ...rest] = (file.webkitRelativePath || file.name).split('/');
+    name ||= root;
+    files.set(rest.length > 0 ? rest.join('/') : root, file);
+  });
+
+  return { name, files };
+};
+
+const haveSameContent = async (left: File, right: File) => {
+  if (left.size !== right.size) return false;
+
+  const [leftBytes, rightBytes] = await Promise.all([left.arrayBuffer(), right.arrayBuffer()]);
+  const a = new Uint8Array(leftBytes);
+  const b = new Uint8Array(rightBytes);
+  for (let index = 0; index < a.length; index++) {
+    if (a[index] !== b[index]) return false;
+  }
+  return true;
+};
+
+export const compareDirectories = async (
+  left: Map<string, File>,
+  right: Map<string, File>
+): Promise<DirectoryDiffEntry[]> => {
+  const paths = Array.from(new Set([...left.keys(), ...right.keys()])).sort();
+  const entries: DirectoryDiffEntry[] = paths.map(path => {
+    const leftFile = left.get(path);
+    const rightFile = right.get(path);
+
+    let status: FileCompareStatus = 'modified';
+    if (!leftFile) status = 'added';
+    else if (!rightFile) status = 'removed';
+    return { path, status, left: leftFile, right: rightFile };
+  });
+
+  // Only files present on both sides with the same size need their bytes read.
+  const pending = entries.filter(entry => entry.left && entry.right && entry.left.size === entry.right.size);
+  const compareNext = async (): Promise<void> => {
+    const entry = pending.shift();
+    if (!entry) return;
+    if (await haveSameContent(entry.left as File, entry.right as File)) entry.status = 'unchanged';
+    return compareNext();
+  };
+  await Promise.all(Array.from({ length: COMPARE_CONCURRENCY }, compareNext));
+
+  return entries;
+};
+
+/**
+ * Nests flat file entries into folders. A folder is unchanged only when
+ * everything inside it is, and is otherwise reported as modified.
+ */
+export const buildFileTree = (entries: DirectoryDiffEntry[]): FileTreeNode[] => {
+  const root: FileTreeNode = { name: '', path: '', status: 'unchanged', children: [] };
+
+  entries.forEach(entry => {
+    const segments = entry.path.split('/');
+    let parent = root;
+
+    segments.forEach((segment, index) => {
+      const path = segments.slice(0, index + 1).join('/');
+      const isFile = index === segments.length - 1;
+      let node = parent.children!.find(child => child.name === segment && !child.children === isFile);
+
+      if (!node) {
+        node = isFile
+          ? { name: segment, path, status: entry.status }
+          : { name: segment, path, status: 'unchanged', children: [] };
+        parent.children!.push(node);
+      }
+      if (!isFile && entry.status !== 'unchanged') node.status = 'modified';
+      parent = node;
+    });
+  });
+
+  // Folders first, then files, each alphabetically.
+  const sortTree = (nodes: FileTreeNode[]) => {
+    nodes.sort((a, b) => Number(!a.children) - Number(!b.children) || a.name.localeCompare(b.name));
+    nodes.forEach(node => node.children && sortTree(node.children));
+    return nodes;
+  };
+
+  return sortTree(root.children!);
+};
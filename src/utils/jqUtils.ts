@@ -0,0 +1,635 @@
+type JqNode =
+  | { type: 'identity' }
+  | { type: 'recurse' }
+  | { type: 'literal'; value: unknown }
+  | { type: 'field'; target: JqNode; name: JqNode; optional: boolean }
+  | { type: 'slice'; target: JqNode; from: JqNode | null; to: JqNode | null; optional: boolean }
+  | { type: 'iterate'; target: JqNode; optional: boolean }
+  | { type: 'try'; body: JqNode }
+  | { type: 'pipe'; left: JqNode; right: JqNode }
+  | { type: 'comma'; left: JqNode; right: JqNode }
+  | { type: 'binary'; operator: string; left: JqNode; right: JqNode }
+  | { type: 'negate'; operand: JqNode }
+  | { type: 'array'; body: JqNode | null }
+  | { type: 'object'; entries: Array<{ key: JqNode; value: JqNode }> }
+  | { type: 'if'; branches: Array<{ condition: JqNode; then: JqNode }>; otherwise: JqNode | null }
+  | { type: 'call'; name: string; args: JqNode[] };
+
+interface JqToken {
+  type: 'punct' | 'ident' | 'field' | 'number' | 'string' | 'keyword';
+  value: string;
+  position: number;
+}
+
+const KEYWORDS = new Set(['and', 'or', 'if', 'then', 'elif', 'else', 'end']);
+// Results are built eagerly, so `range` refuses to produce more than this many numbers.
+const MAX_RANGE_LENGTH = 1_000_000;
+const PUNCTUATION = ['//', '==', '!=', '<=', '>=', '..', '|', ',', '.', '[', ']', '(', ')', '{', '}', ':', '?', '<', '>', '+', '-', '*', '/', '%', ';'];
+
+const tokenize = (source: string): JqToken[] => {
+  const tokens: JqToken[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const whitespace = /^(\s+|#[^\n]*)/.exec(rest);
+    if (whitespace) {
+      position += whitespace[0].length;
+      continue;
+    }
+
+    const field = /^\.([A-Za-z_][\w]*)/.exec(rest);
+    const identifier = /^[A-Za-z_][\w]*/.exec(rest);
+    const number = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(rest);
+    const string = /^"(?:\\.|[^"\\])*"/.exec(rest);
+
+    if (field) {
+      tokens.push({ type: 'field', value: field[1], position });
+      position += field[0].length;
+    } else if (identifier) {
+      tokens.push({ type: KEYWORDS.has(identifier[0]) ? 'keyword' : 'ident', value: identifier[0], position });
+      position += identifier[0].length;
+    } else if (number) {
+      tokens.push({ type: 'number', value: number[0], position });
+      position += number[0].length;
+    } else if (string) {
+      tokens.push({ type: 'string', value: JSON.parse(string[0]), position });
+      position += string[0].length;
+    } else {
+      const punct = PUNCTUATION.find(candidate => rest.startsWith(candidate));
+      if (!punct) throw new Error(`Unexpected "${rest[0]}" at position ${position + 1}`);
+      tokens.push({ type: 'punct', value: punct, position });
+      position += punct.length;
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Parses the jq subset the query console supports: paths, iteration,
+ * pipes, commas, comparisons, arithmetic, `and`/`or`, `//`, `if`, array and
+ * object construction, optional `?` and a library of common builtins.
+ */
+const parseJq = (source: string): JqNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const fail = (message: string): never => {
+    const token = peek();
+    throw new Error(token ? `${message} at position ${token.position + 1}` : `${message} at end of query`);
+  };
+  const isPunct = (value: string) => peek()?.type === 'punct' && peek().value === value;
+  const isKeyword = (value: string) => peek()?.type === 'keyword' && peek().value === value;
+  const consumePunct = (value: string) => {
+    if (!isPunct(value)) return false;
+    index++;
+    return true;
+  };
+  const expectPunct = (value: string) => {
+    if (!consumePunct(value)) fail(`Expected "${value}"`);
+  };
+  const expectKeyword = (value: string) => {
+    if (!isKeyword(value)) fail(`Expected "${value}"`);
+    index++;
+  };
+
+  const parseSuffixes = (target: JqNode): JqNode => {
+    for (;;) {
+      const token = peek();
+      if (token?.type === 'field') {
+        index++;
+        target = { type: 'field', target, name: { type: 'literal', value: token.value }, optional: false };
+      } else if (isPunct('.') && tokens[index + 1]?.type === 'string') {
+        index++;
+        target = { type: 'field', target, name: { type: 'literal', value: tokens[index++].value }, optional: false };
+      } else if (isPunct('[') || (isPunct('.') && tokens[index + 1]?.value === '[')) {
+        if (isPunct('.')) index++;
+        index++;
+        if (consumePunct(']')) {
+          target = { type: 'iterate', target, optional: false };
+          continue;
+        }
+        if (consumePunct(':')) {
+          const to = parsePipe();
+          expectPunct(']');
+          target = { type: 'slice', target, from: null, to, optional: false };
+          continue;
+        }
+        const key = parsePipe();
+        if (consumePunct(':')) {
+          const to = isPunct(']') ? null : parsePipe();
+          expectPunct(']');
+          target = { type: 'slice', target, from: key, to, optional: false };
+          continue;
+        }
+        expectPunct(']');
+        target = { type: 'field', target, name: key, optional: false };
+      } else if (isPunct('?')) {
+        index++;
+        // `.foo?` and `.[]?` only skip the values that can't be indexed; anything else becomes `try`.
+        target = (target.type === 'field' || target.type === 'slice' || target.type === 'iterate') && !target.optional
+          ? { ...target, optional: true }
+          : { type: 'try', body: target };
+      } else {
+        return target;
+      }
+    }
+  };
+
+  const parseObject = (): JqNode => {
+    const entries: Array<{ key: JqNode; value: JqNode }> = [];
+    while (!isPunct('}')) {
+      const token = peek();
+      let key: JqNode;
+      if (token?.type === 'ident' || token?.type === 'keyword' || token?.type === 'string') {
+        index++;
+        key = { type: 'literal', value: token.value };
+      } else if (consumePunct('(')) {
+        key = parsePipe();
+        expectPunct(')');
+      } else {
+        return fail('Expected an object key');
+      }
+
+      // `{name}` is shorthand for `{name: .name}`.
+      const value = consumePunct(':')
+        ? parseAlternative()
+        : { type: 'field' as const, target: { type: 'identity' as const }, name: key, optional: false };
+      entries.push({ key, value });
+      if (!consumePunct(',')) break;
+    }
+    expectPunct('}');
+    return { type: 'object', entries };
+  };
+
+  const parseTerm = (): JqNode => {
+    const token = peek();
+    if (!token) return fail('Expected an expression');
+
+    if (token.type === 'number') {
+      index++;
+      return parseSuffixes({ type: 'literal', value: Number(token.value) });
+    }
+    if (token.type === 'string') {
+      index++;
+      return parseSuffixes({ type: 'literal', value: token.value });
+    }
+    if (token.type === 'field') {
+      return parseSuffixes({ type: 'identity' });
+    }
+    if (isPunct('..')) {
+      index++;
+      return parseSuffixes({ type: 'recurse' });
+    }
+    if (isPunct('.')) {
+      const next = tokens[index + 1];
+      if (next?.type === 'string' || next?.value === '[') return parseSuffixes({ type: 'identity' });
+      index++;
+      return parseSuffixes({ type: 'identity' });
+    }
+    if (consumePunct('(')) {
+      const body = parsePipe();
+      expectPunct(')');
+      return parseSuffixes(body);
+    }
+    if (consumePunct('[')) {
+      const body = isPunct(']') ? null : parsePipe();
+      expectPunct(']');
+      return parseSuffixes({ type: 'array', body });
+    }
+    if (consumePunct('{')) {
+      return parseSuffixes(parseObject());
+    }
+    if (consumePunct('-')) {
+      return { type: 'negate', operand: parseTerm() };
+    }
+    if (isKeyword('if')) {
+      index++;
+      const branches = [{ condition: parsePipe(), then: (expectKeyword('then'), parsePipe()) }];
+      while (isKeyword('elif')) {
+        index++;
+        branches.push({ condition: parsePipe(), then: (expectKeyword('then'), parsePipe()) });
+      }
+      let otherwise: JqNode | null = null;
+      if (isKeyword('else')) {
+        index++;
+        otherwise = parsePipe();
+      }
+      expectKeyword('end');
+      return parseSuffixes({ type: 'if', branches, otherwise });
+    }
+    if (token.type === 'ident') {
+      index++;
+      const args: JqNode[] = [];
+      if (consumePunct('(')) {
+        do {
+          args.push(parsePipe());
+        } while (consumePunct(';'));
+        expectPunct(')');
+      }
+      return parseSuffixes({ type: 'call', name: token.value, args });
+    }
+
+    return fail(`Unexpected "${token.value}"`);
+  };
+
+  const parseBinary = (operators: string[], next: () => JqNode, keyword = false) => (): JqNode => {
+    let left = next();
+    for (;;) {
+      const token = peek();
+      const matches = token && operators.includes(token.value) && (keyword ? token.type === 'keyword' : token.type === 'punct');
+      if (!matches) return left;
+      index++;
+      left = { type: 'binary', operator: token.value, left, right: next() };
+    }
+  };
+
+  const parseMultiplicative = parseBinary(['*', '/', '%'], parseTerm);
+  const parseAdditive = parseBinary(['+', '-'], parseMultiplicative);
+  const parseComparison = (): JqNode => {
+    const left = parseAdditive();
+    const token = peek();
+    if (token?.type === 'punct' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      index++;
+      return { type: 'binary', operator: token.value, left, right: parseAdditive() };
+    }
+    return left;
+  };
+  const parseAnd = parseBinary(['and'], parseComparison, true);
+  const parseOr = parseBinary(['or'], parseAnd, true);
+  const parseAlternative = parseBinary(['//'], parseOr);
+
+  const parseComma = (): JqNode => {
+    let left = parseAlternative();
+    while (consumePunct(',')) left = { type: 'comma', left, right: parseAlternative() };
+    return left;
+  };
+
+  const parsePipe = (): JqNode => {
+    let left = parseComma();
+    while (consumePunct('|')) left = { type: 'pipe', left, right: parseComma() };
+    return left;
+  };
+
+  if (tokens.length === 0) return { type: 'identity' };
+  const program = parsePipe();
+  if (index < tokens.length) fail(`Unexpected "${peek().value}"`);
+  return program;
+};
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const isTruthy = (value: unknown) => value !== null && value !== false && value !== undefined;
+
+const TYPE_ORDER = ['null', 'boolean', 'number', 'string', 'array', 'object'];
+
+// jq orders values across types: null < false < true < numbers < strings < arrays < objects.
+const compareValues = (a: unknown, b: unknown): number => {
+  const typeA = typeOf(a);
+  const typeB = typeOf(b);
+  if (typeA !== typeB) return TYPE_ORDER.indexOf(typeA) - TYPE_ORDER.indexOf(typeB);
+
+  if (typeA === 'boolean' || typeA === 'number') return Number(a) - Number(b);
+  if (typeA === 'string') return (a as string) < (b as string) ? -1 : (a as string) > (b as string) ? 1 : 0;
+  if (typeA === 'array') {
+    const left = a as unknown[];
+    const right = b as unknown[];
+    for (let i = 0; i < Math.min(left.length, right.length); i++) {
+      const result = compareValues(left[i], right[i]);
+      if (result !== 0) return result;
+    }
+    return left.length - right.length;
+  }
+  if (typeA === 'object') {
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    const keyOrder = compareValues(Object.keys(left).sort(), Object.keys(right).sort());
+    if (keyOrder !== 0) return keyOrder;
+    for (const key of Object.keys(left).sort()) {
+      const result = compareValues(left[key], right[key]);
+      if (result !== 0) return result;
+    }
+  }
+  return 0;
+};
+
+const describe = (value: unknown) => `${typeOf(value)} (${JSON.stringify(value)?.slice(0, 30)})`;
+
+const arithmetic = (operator: string, a: unknown, b: unknown): unknown => {
+  if (operator === '+') {
+    if (a === null) return b;
+    if (b === null) return a;
+    if (typeof a === 'number' && typeof b === 'number') return a + b;
+    if (typeof a === 'string' && typeof b === 'string') return a + b;
+    if (Array.isArray(a) && Array.isArray(b)) return [...a, ...b];
+    if (typeOf(a) === 'object' && typeOf(b) === 'object') return { ...(a as object), ...(b as object) };
+  } else if (operator === '-') {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (Array.isArray(a) && Array.isArray(b)) return a.filter(item => !b.some(other => compareValues(item, other) === 0));
+  } else if (operator === '*') {
+    if (typeof a === 'number' && typeof b === 'number') return a * b;
+  } else if (operator === '/') {
+    if (typeof a === 'number' && typeof b === 'number') {
+      if (b === 0) throw new Error(`${describe(a)} and ${describe(b)} cannot be divided because the divisor is zero`);
+      return a / b;
+    }
+    if (typeof a === 'string' && typeof b === 'string') return a.split(b);
+  } else if (operator === '%') {
+    if (typeof a === 'number' && typeof b === 'number') {
+      if (Math.trunc(b) === 0) throw new Error(`${describe(a)} and ${describe(b)} cannot be divided because the divisor is zero`);
+      return Math.trunc(a) % Math.trunc(b);
+    }
+  }
+  throw new Error(`${describe(a)} and ${describe(b)} cannot be combined with ${operator}`);
+};
+
+const iterate = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (typeOf(value) === 'object') return Object.values(value as object);
+  throw new Error(`Cannot iterate over ${describe(value)}`);
+};
+
+const recurse = (value: unknown): unknown[] => [
+  value,
+  ...(Array.isArray(value) || typeOf(value) === 'object' ? iterate(value).flatMap(recurse) : []),
+];
+
+const indexValue = (value: unknown, key: unknown): unknown => {
+  if (value === null) return null;
+  if (typeof key === 'string' && typeOf(value) === 'object') {
+    return Object.prototype.hasOwnProperty.call(value, key) ? (value as Record<string, unknown>)[key] : null;
+  }
+  if (typeof key === 'number' && Array.isArray(value)) {
+    const position = Math.floor(key < 0 ? value.length + key : key);
+    return value[position] ?? null;
+  }
+  throw new Error(`Cannot index ${typeOf(value)} with ${typeof key === 'string' ? `"${key}"` : typeOf(key)}`);
+};
+
+// Runs `step` on one value of an optional suffix, dropping the value instead of failing.
+const attempt = (optional: boolean, step: () => unknown[]): unknown[] => {
+  if (!optional) return step();
+  try {
+    return step();
+  } catch {
+    return [];
+  }
+};
+
+const cartesian = (lists: unknown[][]): unknown[][] =>
+  lists.reduce<unknown[][]>((combos, list) => combos.flatMap(combo => list.map(item => [...combo, item])), [[]]);
+
+const evaluate = (node: JqNode, input: unknown): unknown[] => {
+  switch (node.type) {
+    case 'identity':
+      return [input];
+    case 'recurse':
+      return recurse(input);
+    case 'literal':
+      return [node.value];
+    case 'field':
+      return evaluate(node.target, input).flatMap(target =>
+        evaluate(node.name, input).flatMap(key => attempt(node.optional, () => [indexValue(target, key)])));
+    case 'slice':
+      return evaluate(node.target, input).flatMap(target => attempt(node.optional, () => {
+        if (target === null) return [null];
+        if (!Array.isArray(target) && typeof target !== 'string') throw new Error(`Cannot slice ${describe(target)}`);
+        const froms = node.from ? evaluate(node.from, input) : [0];
+        const tos = node.to ? evaluate(node.to, input) : [target.length];
+        return froms.flatMap(from => tos.map(to => target.slice(Number(from), Number(to))));
+      }));
+    case 'iterate':
+      return evaluate(node.target, input).flatMap(target => attempt(node.optional, () => iterate(target)));
+    case 'try':
+      try {
+        return evaluate(node.body, input);
+      } catch {
+        return [];
+      }
+    case 'pipe':
+      return evaluate(node.left, input).flatMap(value => evaluate(node.right, value));
+    case 'comma':
+      return [...evaluate(node.left, input), ...evaluate(node.right, input)];
+    case 'negate':
+      return evaluate(node.operand, input).map(value => {
+        if (typeof value !== 'number') throw new Error(`${describe(value)} cannot be negated`);
+        return -value;
+      });
+    case 'binary': {
+      if (node.operator === 'and' || node.operator === 'or') {
+        return evaluate(node.left, input).flatMap(left => {
+          if (node.operator === 'and' && !isTruthy(left)) return [false];
+          if (node.operator === 'or' && isTruthy(left)) return [true];
+          return evaluate(node.right, input).map(isTruthy);
+        });
+      }
+      if (node.operator === '//') {
+        let truthy: unknown[] = [];
+        try {
+          truthy = evaluate(node.left, input).filter(isTruthy);
+        } catch {
+          // Errors on the left fall through to the alternative, as in jq.
+        }
+        return truthy.length > 0 ? truthy : evaluate(node.right, input);
+      }
+
+      const rights = evaluate(node.right, input);
+      return evaluate(node.left, input).flatMap(left => rights.map(right => {
+        switch (node.operator) {
+          case '==': return compareValues(left, right) === 0;
+          case '!=': return compareValues(left, right) !== 0;
+          case '<': return compareValues(left, right) < 0;
+          case '<=': return compareValues(left, right) <= 0;
+          case '>': return compareValues(left, right) > 0;
+          case '>=': return compareValues(left, right) >= 0;
+          default: return arithmetic(node.operator, left, right);
+        }
+      }));
+    }
+    case 'array':
+      return [node.body ? evaluate(node.body, input) : []];
+    case 'object': {
+      const entryOptions = node.entries.map(entry => {
+        const keys = evaluate(entry.key, input);
+        const values = evaluate(entry.value, input);
+        return keys.flatMap(key => {
+          if (typeof key !== 'string') throw new Error(`Object keys must be strings, got ${describe(key)}`);
+          return values.map(value => [key, value] as const);
+        });
+      });
+      return cartesian(entryOptions).map(pairs => Object.fromEntries(pairs as Array<[string, unknown]>));
+    }
+    case 'if': {
+      const evaluateBranch = (branchIndex: number): unknown[] => {
+        if (branchIndex >= node.branches.length) return node.otherwise ? evaluate(node.otherwise, input) : [input];
+        const branch = node.branches[branchIndex];
+        return evaluate(branch.condition, input).flatMap(condition =>
+          isTruthy(condition) ? evaluate(branch.then, input) : evaluateBranch(branchIndex + 1));
+      };
+      return evaluateBranch(0);
+    }
+    case 'call':
+      return callBuiltin(node.name, node.args, input);
+  }
+};
+
+const requireArray = (name: string, value: unknown): unknown[] => {
+  if (!Array.isArray(value)) throw new Error(`${name} requires an array, got ${describe(value)}`);
+  return value;
+};
+
+const requireString = (name: string, value: unknown): string => {
+  if (typeof value !== 'string') throw new Error(`${name} requires a string, got ${describe(value)}`);
+  return value;
+};
+
+const sortBy = (items: unknown[], key: (item: unknown) => unknown[]) =>
+  items
+    .map(item => ({ item, key: key(item) }))
+    .sort((a, b) => compareValues(a.key, b.key))
+    .map(entry => entry.item);
+
+const builtins: Record<string, (input: unknown, args: JqNode[]) => unknown[]> = {
+  empty: () => [],
+  not: input => [!isTruthy(input)],
+  length: input => {
+    if (input === null) return [0];
+    if (typeof input === 'string' || Array.isArray(input)) return [input.length];
+    if (typeOf(input) === 'object') return [Object.keys(input as object).length];
+    if (typeof input === 'number') return [Math.abs(input)];
+    throw new Error(`${describe(input)} has no length`);
+  },
+  keys: input => {
+    if (Array.isArray(input)) return [input.map((_, index) => index)];
+    if (typeOf(input) === 'object') return [Object.keys(input as object).sort()];
+    throw new Error(`${describe(input)} has no keys`);
+  },
+  values: input => (isTruthy(input) ? [input] : []),
+  type: input => [typeOf(input)],
+  has: (input, [key]) => evaluate(key, input).map(name => {
+    if (Array.isArray(input)) return typeof name === 'number' && name >= 0 && name < input.length;
+    if (typeOf(input) === 'object') return typeof name === 'string' && Object.prototype.hasOwnProperty.call(input, name);
+    throw new Error(`Cannot check whether ${typeOf(input)} has a key`);
+  }),
+  select: (input, [condition]) => evaluate(condition, input).filter(isTruthy).map(() => input),
+  map: (input, [body]) => [iterate(input).flatMap(item => evaluate(body, item))],
+  map_values: (input, [body]) => {
+    if (Array.isArray(input)) return [input.flatMap(item => evaluate(body, item).slice(0, 1))];
+    return [Object.fromEntries(Object.entries(input as object).flatMap(([key, value]) =>
+      evaluate(body, value).slice(0, 1).map(result => [key, result])))];
+  },
+  to_entries: input => [Object.entries(input as object).map(([key, value]) => ({ key, value }))],
+  from_entries: input => [Object.fromEntries(requireArray('from_entries', input).map(entry => {
+    const record = entry as Record<string, unknown>;
+    return [String(record.key ?? record.name ?? record.k), record.value ?? record.v ?? null];
+  }))],
+  with_entries: (input, [body]) => {
+    const entries = Object.entries(input as object).map(([key, value]) => ({ key, value }));
+    return builtins.from_entries(entries.flatMap(entry => evaluate(body, entry)), []);
+  },
+  add: input => [iterate(input).reduce((total, item) => (total === null ? item : arithmetic('+', total, item)), null)],
+  any: input => [iterate(input).some(isTruthy)],
+  all: input => [iterate(input).every(isTruthy)],
+  flatten: input => [requireArray('flatten', input).flat(Infinity)],
+  range: (input, args) => {
+    const bounds = args.map(arg => Number(evaluate(arg, input)[0]));
+    const [from, to] = bounds.length === 1 ? [0, bounds[0]] : bounds;
+    const length = Math.max(0, Math.ceil(to - from));
+    if (length > MAX_RANGE_LENGTH) throw new Error(`range(${from}; ${to}) would produce more than ${MAX_RANGE_LENGTH.toLocaleString()} numbers`);
+    return Array.from({ length }, (_, index) => from + index);
+  },
+  reverse: input => [typeof input === 'string' ? [...input].reverse().join('') : [...requireArray('reverse', input)].reverse()],
+  sort: input => [sortBy(requireArray('sort', input), item => [item])],
+  sort_by: (input, [key]) => [sortBy(requireArray('sort_by', input), item => evaluate(key, item))],
+  group_by: (input, [key]) => {
+    const groups: unknown[][] = [];
+    let previous: unknown[] | null = null;
+    sortBy(requireArray('group_by', input), item => evaluate(key, item)).forEach(item => {
+      const itemKey = evaluate(key, item);
+      if (previous && compareValues(previous, itemKey) === 0) {
+        groups[groups.length - 1].push(item);
+      } else {
+        groups.push([item]);
+      }
+      previous = itemKey;
+    });
+    return [groups];
+  },
+  unique: input => [sortBy(requireArray('unique', input), item => [item])
+    .filter((item, index, items) => index === 0 || compareValues(item, items[index - 1]) !== 0)],
+  unique_by: (input, [key]) => builtins.group_by(input, [key]).map(groups => (groups as unknown[][]).map(group => group[0])),
+  min: input => [requireArray('min', input).reduce((min, item) => (min === null || compareValues(item, min) < 0 ? item : min), null)],
+  max: input => [requireArray('max', input).reduce((max, item) => (max === null || compareValues(item, max) > 0 ? item : max), null)],
+  first: (input, args) => (args.length > 0 ? evaluate(args[0], input).slice(0, 1) : [indexValue(input, 0)]),
+  last: (input, args) => (args.length > 0 ? evaluate(args[0], input).slice(-1) : [indexValue(input, -1)]),
+  limit: (input, [count, body]) => evaluate(body, input).slice(0, Number(evaluate(count, input)[0])),
+  recurse: input => recurse(input),
+  tostring: input => [typeof input === 'string' ? input : JSON.stringify(input)],
+  tonumber: input => {
+    const number = typeof input === 'number' ? input : Number(requireString('tonumber', input));
+    if (Number.isNaN(number)) throw new Error(`Cannot parse ${describe(input)} as a number`);
+    return [number];
+  },
+  tojson: input => [JSON.stringify(input)],
+  fromjson: input => [JSON.parse(requireString('fromjson', input))],
+  ascii_downcase: input => [requireString('ascii_downcase', input).toLowerCase()],
+  ascii_upcase: input => [requireString('ascii_upcase', input).toUpperCase()],
+  startswith: (input, [prefix]) => evaluate(prefix, input).map(value => requireString('startswith', input).startsWith(requireString('startswith', value))),
+  endswith: (input, [suffix]) => evaluate(suffix, input).map(value => requireString('endswith', input).endsWith(requireString('endswith', value))),
+  contains: (input, [needle]) => evaluate(needle, input).map(value => {
+    const contains = (a: unknown, b: unknown): boolean => {
+      if (typeof a === 'string' && typeof b === 'string') return a.includes(b);
+      if (Array.isArray(a) && Array.isArray(b)) return b.every(item => a.some(candidate => contains(candidate, item)));
+      if (typeOf(a) === 'object' && typeOf(b) === 'object') {
+        return Object.entries(b as object).every(([key, item]) =>
+          Object.prototype.hasOwnProperty.call(a, key) && contains((a as Record<string, unknown>)[key], item));
+      }
+      return compareValues(a, b) === 0;
+    };
+    return contains(input, value);
+  }),
+  test: (input, [pattern, flags]) => evaluate(pattern, input).map(regex =>
+    new RegExp(requireString('test', regex), flags ? String(evaluate(flags, input)[0]).replace(/[^imsu]/g, '') : '')
+      .test(requireString('test', input))),
+  split: (input, [separator]) => evaluate(separator, input).map(value => requireString('split', input).split(requireString('split', value))),
+  join: (input, [separator]) => evaluate(separator, input).map(value =>
+    requireArray('join', input).map(item => (item === null ? '' : String(item))).join(requireString('join', value))),
+  ltrimstr: (input, [prefix]) => evaluate(prefix, input).map(value =>
+    typeof input === 'string' && typeof value === 'string' && input.startsWith(value) ? input.slice(value.length) : input),
+  rtrimstr: (input, [suffix]) => evaluate(suffix, input).map(value =>
+    typeof input === 'string' && typeof value === 'string' && value && input.endsWith(value) ? input.slice(0, -value.length) : input),
+  floor: input => [Math.floor(input as number)],
+  ceil: input => [Math.ceil(input as number)],
+  round: input => [Math.round(input as number)],
+  abs: input => [Math.abs(input as number)],
+  error: (input, args) => {
+    throw new Error(String(args.length > 0 ? evaluate(args[0], input)[0] : input));
+  },
+};
+
+const BUILTIN_ARITY: Record<string, number[]> = {
+  has: [1], select: [1], map: [1], map_values: [1], with_entries: [1], range: [1, 2], sort_by: [1], group_by: [1],
+  unique_by: [1], first: [0, 1], last: [0, 1], limit: [2], startswith: [1], endswith: [1], contains: [1], test: [1, 2],
+  split: [1], join: [1], ltrimstr: [1], rtrimstr: [1], error: [0, 1],
+};
+
+const callBuiltin = (name: string, args: JqNode[], input: unknown): unknown[] => {
+  const builtin = builtins[name];
+  if (!builtin) throw new Error(`${name}/${args.length} is not defined`);
+  const arity = BUILTIN_ARITY[name] ?? [0];
+  if (!arity.includes(args.length)) throw new Error(`${name}/${args.length} is not defined`);
+  return builtin(input, args);
+};
+
+/**
+ * Runs a jq program against a value and returns every output it produces.
+ * Throws with a position for syntax errors and jq-style messages for
+ * runtime errors.
+ */
+export const evaluateJq = (input: unknown, program: string): unknown[] => evaluate(parseJq(program), input);
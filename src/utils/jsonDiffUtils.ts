@@ -0,0 +1,217 @@
+import { JsonDiffNode, JsonPatchOperation } from '../types';
+
+export interface JsonDiffOptions {
+  arrayKey?: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hasKey = (object: JsonObject, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+export const isJsonEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isJsonEqual(item, b[index]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => hasKey(b, key) && isJsonEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+export const appendJsonPath = (path: string, key: string | number) => {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return IDENTIFIER.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+};
+
+export const appendJsonPointer = (pointer: string, key: string | number) =>
+  `${pointer}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+
+const getItemKey = (item: unknown, arrayKey: string) =>
+  isObject(item) && hasKey(item, arrayKey) ? JSON.stringify(item[arrayKey]) : undefined;
+
+interface ArrayMatch {
+  matched: Array<[number, number]>;
+  removed: number[];
+  added: number[];
+}
+
+/**
+ * Pairs array elements by the value of `arrayKey`. Returns null when any
+ * element lacks the key or a key repeats, in which case callers fall back
+ * to comparing by index.
+ */
+const matchArrayItems = (left: unknown[], right: unknown[], arrayKey?: string): ArrayMatch | null => {
+  if (!arrayKey) return null;
+
+  const leftKeys = left.map(item => getItemKey(item, arrayKey));
+  const rightKeys = right.map(item => getItemKey(item, arrayKey));
+  const keysAreUsable = (keys: Array<string | undefined>) =>
+    keys.every(key => key !== undefined) && new Set(keys).size === keys.length;
+  if (!keysAreUsable(leftKeys) || !keysAreUsable(rightKeys)) return null;
+
+  const rightIndexByKey = new Map(rightKeys.map((key, index) => [key, index]));
+  const matched: Array<[number, number]> = [];
+  const removed: number[] = [];
+
+  leftKeys.forEach((key, index) => {
+    const rightIndex = rightIndexByKey.get(key);
+    if (rightIndex === undefined) {
+      removed.push(index);
+    } else {
+      matched.push([index, rightIndex]);
+    }
+  });
+
+  const matchedRight = new Set(matched.map(([, rightIndex]) => rightIndex));
+  const added = right.map((_, index) => index).filter(index => !matchedRight.has(index));
+
+  return { matched, removed, added };
+};
+
+/**
+ * Compares two parsed JSON values structurally. Object keys are matched by
+ * name regardless of order; array elements by index, or by `arrayKey` when
+ * every element is an object carrying a unique value for it.
+ */
+export const diffJson = (left: unknown, right: unknown, options: JsonDiffOptions = {}): JsonDiffNode => {
+  const compare = (oldValue: unknown, newValue: unknown, key: string, path: string): JsonDiffNode => {
+    if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+      const children: JsonDiffNode[] = [];
+      const match = matchArrayItems(oldValue, newValue, options.arrayKey);
+
+      if (match) {
+        match.matched.forEach(([oldIndex, newIndex]) => {
+          const label = `[${options.arrayKey}=${JSON.stringify((newValue[newIndex] as JsonObject)[options.arrayKey!])}]`;
+          children.push(compare(oldValue[oldIndex], newValue[newIndex], label, appendJsonPath(path, newIndex)));
+        });
+        match.removed.forEach(index => {
+          children.push({ key: `[${index}]`, path: appendJsonPath(path, index), change: 'removed', oldValue: oldValue[index] });
+        });
+        match.added.forEach(index => {
+          children.push({ key: `[${index}]`, path: appendJsonPath(path, index), change: 'added', newValue: newValue[index] });
+        });
+      } else {
+        for (let index = 0; index < Math.max(oldValue.length, newValue.length); index++) {
+          const childPath = appendJsonPath(path, index);
+          if (index >= newValue.length) {
+            children.push({ key: `[${index}]`, path: childPath, change: 'removed', oldValue: oldValue[index] });
+          } else if (index >= oldValue.length) {
+            children.push({ key: `[${index}]`, path: childPath, change: 'added', newValue: newValue[index] });
+          } else {
+            children.push(compare(oldValue[index], newValue[index], `[${index}]`, childPath));
+          }
+        }
+      }
+
+      const change = children.every(child => child.change === 'unchanged') ? 'unchanged' : 'changed';
+      return { key, path, change, oldValue, newValue, children };
+    }
+
+    if (isObject(oldValue) && isObject(newValue)) {
+      const keys = [...Object.keys(oldValue), ...Object.keys(newValue).filter(childKey => !hasKey(oldValue, childKey))];
+      const children = keys.map(childKey => {
+        const childPath = appendJsonPath(path, childKey);
+        if (!hasKey(newValue, childKey)) {
+          return { key: childKey, path: childPath, change: 'removed' as const, oldValue: oldValue[childKey] };
+        }
+        if (!hasKey(oldValue, childKey)) {
+          return { key: childKey, path: childPath, change: 'added' as const, newValue: newValue[childKey] };
+        }
+        return compare(oldValue[childKey], newValue[childKey], childKey, childPath);
+      });
+
+      const change = children.every(child => child.change === 'unchanged') ? 'unchanged' : 'changed';
+      return { key, path, change, oldValue, newValue, children };
+    }
+
+    return { key, path, change: isJsonEqual(oldValue, newValue) ? 'unchanged' : 'changed', oldValue, newValue };
+  };
+
+  return compare(left, right, '$', '$');
+};
+
+/**
+ * Produces an RFC 6902 JSON Patch that turns `left` into `right`. Operations
+ * are ordered so each path is valid at the time it is applied: array removals
+ * run from the highest index down and additions from the lowest up. Keyed
+ * arrays whose surviving elements changed order are replaced wholesale.
+ */
+export const createJsonPatch = (left: unknown, right: unknown, options: JsonDiffOptions = {}): JsonPatchOperation[] => {
+  const operations: JsonPatchOperation[] = [];
+
+  const compare = (oldValue: unknown, newValue: unknown, pointer: string) => {
+    if (isJsonEqual(oldValue, newValue)) return;
+
+    if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+      const match = matchArrayItems(oldValue, newValue, options.arrayKey);
+
+      if (match) {
+        const keepsOrder = match.matched.every(([, newIndex], index) =>
+          index === 0 || match.matched[index - 1][1] < newIndex);
+        if (!keepsOrder) {
+          operations.push({ op: 'replace', path: pointer, value: newValue });
+          return;
+        }
+
+        [...match.removed].reverse().forEach(index => {
+          operations.push({ op: 'remove', path: appendJsonPointer(pointer, index) });
+        });
+        match.matched.forEach(([oldIndex, newIndex], position) => {
+          compare(oldValue[oldIndex], newValue[newIndex], appendJsonPointer(pointer, position));
+        });
+        match.added.forEach(index => {
+          operations.push({ op: 'add', path: appendJsonPointer(pointer, index), value: newValue[index] });
+        });
+        return;
+      }
+
+      const shared = Math.min(oldValue.length, newValue.length);
+      for (let index = 0; index < shared; index++) {
+        compare(oldValue[index], newValue[index], appendJsonPointer(pointer, index));
+      }
+      for (let index = oldValue.length - 1; index >= shared; index--) {
+        operations.push({ op: 'remove', path: appendJsonPointer(pointer, index) });
+      }
+      for (let index = shared; index < newValue.length; index++) {
+        operations.push({ op: 'add', path: appendJsonPointer(pointer, index), value: newValue[index] });
+      }
+      return;
+    }
+
+    if (isObject(oldValue) && isObject(newValue)) {
+      Object.keys(oldValue).forEach(key => {
+        if (!hasKey(newValue, key)) {
+          operations.push({ op: 'remove', path: appendJsonPointer(pointer, key) });
+        } else {
+          compare(oldValue[key], newValue[key], appendJsonPointer(pointer, key));
+        }
+      });
+      Object.keys(newValue).forEach(key => {
+        if (!hasKey(oldValue, key)) {
+          operations.push({ op: 'add', path: appendJsonPointer(pointer, key), value: newValue[key] });
+        }
+      });
+      return;
+    }
+
+    operations.push({ op: 'replace', path: pointer, value: newValue });
+  };
+
+  compare(left, right, '');
+  return operations;
+};
+
+// Flattens a diff tree to the nodes that carry an actual change, skipping containers that only aggregate them.
+export const collectJsonChanges = (node: JsonDiffNode): JsonDiffNode[] => {
+  if (node.change === 'unchanged') return [];
+  if (node.children) return node.children.flatMap(collectJsonChanges);
+  return [node];
+};
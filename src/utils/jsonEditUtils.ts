@@ -0,0 +1,98 @@
+import { parseJsonPointer } from './jsonPathUtils';
+import { JsonValueType } from '../types';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const getJsonValueType = (value: unknown): JsonValueType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as JsonValueType;
+};
+
+/**
+ * Returns a copy of the document with the value at `pointer` replaced by
+ * `update(current)`. Only the containers along the path are copied.
+ */
+const updateAt = (document: unknown, tokens: string[], update: (current: unknown) => unknown): unknown => {
+  if (tokens.length === 0) return update(document);
+
+  const [token, ...rest] = tokens;
+  if (Array.isArray(document)) {
+    const index = Number(token);
+    if (!Number.isInteger(index) || index < 0 || index >= document.length) throw new Error(`No array item at index ${token}`);
+    const copy = [...document];
+    copy[index] = updateAt(document[index], rest, update);
+    return copy;
+  }
+  if (isObject(document)) {
+    if (!Object.prototype.hasOwnProperty.call(document, token)) throw new Error(`No property named "${token}"`);
+    return { ...document, [token]: updateAt(document[token], rest, update) };
+  }
+  throw new Error(`Cannot descend into a ${getJsonValueType(document)}`);
+};
+
+const splitParent = (pointer: string) => {
+  const tokens = parseJsonPointer(pointer);
+  if (tokens.length === 0) throw new Error('The root value cannot be renamed or removed');
+  return { parentTokens: tokens.slice(0, -1), key: tokens[tokens.length - 1] };
+};
+
+export const setJsonValue = (document: unknown, pointer: string, value: unknown): unknown =>
+  updateAt(document, parseJsonPointer(pointer), () => value);
+
+export const removeJsonValue = (document: unknown, pointer: string): unknown => {
+  const { parentTokens, key } = splitParent(pointer);
+  return updateAt(document, parentTokens, parent => {
+    if (Array.isArray(parent)) return parent.filter((_, index) => index !== Number(key));
+    return Object.fromEntries(Object.entries(parent as Record<string, unknown>).filter(([name]) => name !== key));
+  });
+};
+
+/** Renames a property in place, keeping its position among its siblings. */
+export const renameJsonKey = (document: unknown, pointer: string, newKey: string): unknown => {
+  const { parentTokens, key } = splitParent(pointer);
+  return updateAt(document, parentTokens, parent => {
+    if (!isObject(parent)) throw new Error('Only object properties can be renamed');
+    if (newKey === key) return parent;
+    if (Object.prototype.hasOwnProperty.call(parent, newKey)) throw new Error(`A property named "${newKey}" already exists`);
+    return Object.fromEntries(Object.entries(parent).map(([name, value]) => [name === key ? newKey : name, value]));
+  });
+};
+
+/** Appends to an array, or adds a property to an object when `key` is given. */
+export const addJsonChild = (document: unknown, pointer: string, value: unknown, key?: string): unknown =>
+  updateAt(document, parseJsonPointer(pointer), container => {
+    if (Array.isArray(container)) return [...container, value];
+    if (!isObject(container)) throw new Error(`Cannot add children to a ${getJsonValueType(container)}`);
+    if (!key) throw new Error('A property name is required');
+    if (Object.prototype.hasOwnProperty.call(container, key)) throw new Error(`A property named "${key}" already exists`);
+    return { ...container, [key]: value };
+  });
+
+/** Converts a value to another JSON type, keeping as much of it as the target type can hold. */
+export const convertJsonValue = (value: unknown, type: JsonValueType): unknown => {
+  const current = getJsonValueType(value);
+  if (current === type) return value;
+
+  switch (type) {
+    case 'string':
+      if (value === null) return '';
+      return current === 'object' || current === 'array' ? JSON.stringify(value) : String(value);
+    case 'number': {
+      if (typeof value === 'boolean') return Number(value);
+      const number = typeof value === 'string' ? Number(value) : NaN;
+      return Number.isFinite(number) ? number : 0;
+    }
+    case 'boolean':
+      if (typeof value === 'string') return value.trim().toLowerCase() === 'true';
+      return typeof value === 'number' ? value !== 0 : false;
+    case 'null':
+      return null;
+    case 'object':
+      return Array.isArray(value) ? Object.fromEntries(value.map((item, index) => [String(index), item])) : {};
+    case 'array':
+      if (isObject(value)) return Object.values(value);
+      return value === null ? [] : [value];
+  }
+};
@@ -0,0 +1,75 @@
+import { findLossyNumbers, stringifyJsonLossless } from './jsonNumberUtils';
+import { JsonIndent } from '../types';
+
+// Unescaping stops after this many layers of stringified JSON.
+const MAX_UNESCAPE_DEPTH = 10;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// `numberLiterals` keeps numbers too large or precise for JavaScript as they were written.
+export const prettifyJson = (value: unknown, indent: JsonIndent = 2, numberLiterals = new Map<string, string>()): string =>
+  stringifyJsonLossless(value, numberLiterals, indent === 'tab' ? '\t' : indent);
+
+export const minifyJson = (value: unknown, numberLiterals = new Map<string, string>()): string =>
+  stringifyJsonLossless(value, numberLiterals, 0);
+
+/** Sorts object keys at every depth; array order is kept. */
+export const sortJsonKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sortJsonKeys);
+  if (!isObject(value)) return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+      .map(key => [key, sortJsonKeys(value[key])])
+  );
+};
+
+const isEmptyValue = (value: unknown) =>
+  value === null || value === '' || (Array.isArray(value) ? value.length === 0 : isObject(value) && Object.keys(value).length === 0);
+
+/**
+ * Drops nulls, empty strings, empty arrays and empty objects at every depth.
+ * Containers that only become empty because of this are dropped too; the
+ * root itself is always kept.
+ */
+export const removeEmptyValues = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(removeEmptyValues).filter(item => !isEmptyValue(item));
+  if (!isObject(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .map(([key, child]): [string, unknown] => [key, removeEmptyValues(child)])
+      .filter(([, child]) => !isEmptyValue(child))
+  );
+};
+
+/** Turns text into a JSON string literal, e.g. for embedding a document in another one. */
+export const escapeJsonString = (text: string): string => JSON.stringify(text);
+
+/**
+ * Reverses `escapeJsonString`, also accepting the bare `{\"a\":1}` form
+ * found in logs (without the surrounding quotes) and JSON that was
+ * stringified several times. Returns the unescaped text, pretty-printed
+ * when it is JSON itself.
+ */
+export const unescapeJsonString = (text: string, indent: JsonIndent = 2): string => {
+  const trimmed = text.trim();
+  let current: unknown;
+  try {
+    current = JSON.parse(trimmed.startsWith('"') ? trimmed : `"${trimmed}"`);
+  } catch {
+    throw new Error('The input is not an escaped JSON string');
+  }
+
+  let json = '';
+  for (let depth = 0; typeof current === 'string' && depth < MAX_UNESCAPE_DEPTH; depth++) {
+    json = current;
+    try {
+      current = JSON.parse(json);
+    } catch {
+      // Plain text rather than another layer of JSON.
+      return json;
+    }
+  }
+  return typeof current === 'string' ? current : prettifyJson(current, indent, findLossyNumbers(json));
+};
@@ -0,0 +1,204 @@
+import JSON5 from 'json5';
+import { appendJsonPointer } from './jsonDiffUtils';
+
+// Doubles round-trip any literal with up to 15 significant digits (13 hex
+// digits), so only texts with longer digit runs or three-digit exponents need scanning.
+const MAYBE_LOSSY = /\d[\d.]{15}|[eE][+-]?\d{3}|0[xX][\dA-Fa-f]{14}/;
+
+const INTEGER_LITERAL = /^-?\d+$/;
+const DECIMAL_LITERAL = /^(-?)(\d+)(?:\.(\d+))?(?:[eE]([+-]?\d+))?$/;
+// JSON5 also allows a leading `+`, hex integers and a leading or trailing decimal point.
+const NUMBER_TOKEN = /[+-]?(?:0[xX][\dA-Fa-f]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/y;
+const UNQUOTED_KEY = /[^\s:/]+/y;
+
+// Rewrites a JSON5 number token as a JSON number literal, e.g. `+.5` -> `0.5` and `0x10` -> `16`.
+const toJsonNumberLiteral = (token: string): string => {
+  const sign = token.startsWith('-') ? '-' : '';
+  const unsigned = token.replace(/^[+-]/, '');
+  if (/^0x/i.test(unsigned)) return `${sign}${BigInt(unsigned)}`;
+  return `${sign}${unsigned.replace(/^\./, '0.').replace(/\.(?=[eE]|$)/, '')}`;
+};
+
+export const isIntegerLiteral = (literal: string) => INTEGER_LITERAL.test(literal);
+
+export const isJsonNumberLiteral = (text: string) => /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/.test(text);
+
+// Scientific form of a decimal literal with insignificant zeros removed, e.g. `120.50` -> `1205e3`.
+const normalizeDecimal = (literal: string): string => {
+  const [, sign, integer, fraction = '', exponent = '0'] = DECIMAL_LITERAL.exec(literal) ?? [];
+  const digits = `${integer}${fraction}`;
+  const significant = digits.replace(/^0+/, '');
+  if (!significant) return '0';
+  const magnitude = integer.length - (digits.length - significant.length) + Number(exponent);
+  return `${sign}${significant.replace(/0+$/, '')}e${magnitude}`;
+};
+
+/**
+ * Explains why a JSON number literal can't be used as a JavaScript number
+ * as is, or returns null when `Number(literal)` is exact and safe.
+ */
+export const getNumberPrecisionWarning = (literal: string): string | null => {
+  const number = Number(literal);
+  if (!Number.isFinite(number)) return `${literal} is out of range for a JavaScript number`;
+  if (INTEGER_LITERAL.test(literal)) {
+    if (Number.isSafeInteger(number)) return null;
+    return BigInt(literal) === BigInt(number)
+      ? `${literal} is outside the safe integer range, so arithmetic on it is not exact`
+      : `${literal} is outside the safe integer range and reads as ${BigInt(number)}`;
+  }
+  return normalizeDecimal(literal) === normalizeDecimal(String(number))
+    ? null
+    : `${literal} has more precision than a JavaScript number and reads as ${number}`;
+};
+
+/**
+ * Finds the numbers in a JSON or JSON5 text that parsing rounds or that
+ * exceed the safe integer range, keyed by JSON Pointer with their text as a
+ * JSON number literal. The text must be valid JSON or JSON5.
+ */
+export const findLossyNumbers = (text: string): Map<string, string> => {
+  const literals = new Map<string, string>();
+  if (!MAYBE_LOSSY.test(text)) return literals;
+
+  const containers: Array<{ path: string; isArray: boolean; index: number }> = [];
+  let key = '';
+  let expectingKey = false;
+
+  const valuePath = () => {
+    const parent = containers[containers.length - 1];
+    if (!parent) return '';
+    return appendJsonPointer(parent.path, parent.isArray ? parent.index : key);
+  };
+
+  for (let index = 0; index < text.length;) {
+    const char = text[index];
+    if (char === '"' || char === "'") {
+      let end = index + 1;
+      while (text[end] !== char) end += text[end] === '\\' ? 2 : 1;
+      if (expectingKey) {
+        const quoted = text.slice(index, end + 1);
+        key = char === '"' ? JSON.parse(quoted) : JSON5.parse(quoted);
+        expectingKey = false;
+      }
+      index = end + 1;
+    } else if (char === '/') {
+      // JSON5 comments.
+      const end = text[index + 1] === '*' ? text.indexOf('*/', index + 2) + 2 : text.indexOf('\n', index);
+      index = end < index ? text.length : end;
+    } else if (char === '{' || char === '[') {
+      containers.push({ path: valuePath(), isArray: char === '[', index: 0 });
+      expectingKey = char === '{';
+      index++;
+    } else if (char === '}' || char === ']') {
+      containers.pop();
+      // After a JSON5 trailing comma.
+      expectingKey = false;
+      index++;
+    } else if (char === ',') {
+      const parent = containers[containers.length - 1];
+      if (parent.isArray) parent.index++;
+      else expectingKey = true;
+      index++;
+    } else if (expectingKey && !/[\s,]/.test(char)) {
+      UNQUOTED_KEY.lastIndex = index;
+      key = UNQUOTED_KEY.exec(text)?.[0] ?? char;
+      expectingKey = false;
+      index += key.length;
+    } else if (/[-+.\d]/.test(char)) {
+      NUMBER_TOKEN.lastIndex = index;
+      const token = NUMBER_TOKEN.exec(text)?.[0];
+      // A sign without digits starts `-Infinity`, which isn't a number literal.
+      if (!token) {
+        index++;
+        continue;
+      }
+      const literal = toJsonNumberLiteral(token);
+      if (getNumberPrecisionWarning(literal) !== null) literals.set(valuePath(), literal);
+      index += token.length;
+    } else {
+      index++;
+    }
+  }
+  return literals;
+};
+
+// Literal per parsed value, or null when several literals read as the same number.
+const indexByValue = (literals: Map<string, string>) => {
+  const byValue = new Map<number, string | null>();
+  literals.forEach(literal => {
+    const number = Number(literal);
+    byValue.set(number, byValue.has(number) && byValue.get(number) !== literal ? null : literal);
+  });
+  return byValue;
+};
+
+/**
+ * Serializes like `JSON.stringify(value, null, space)`, but writes the
+ * numbers in `literals` with their original text. `path` is the pointer of
+ * `value` in the document the literals were found in. Numbers that moved,
+ * e.g. after an edit, are still matched by value when that is unambiguous.
+ */
+export const stringifyJsonLossless = (
+  value: unknown,
+  literals: Map<string, string>,
+  space: string | number = 2,
+  path = ''
+): string => {
+  if (literals.size === 0) return JSON.stringify(value, null, space) ?? 'null';
+
+  const byValue = indexByValue(literals);
+  const gap = typeof space === 'number' ? ' '.repeat(Math.min(space, 10)) : space.slice(0, 10);
+
+  const write = (current: unknown, pointer: string, indent: string): string => {
+    if (typeof current === 'number') {
+      const literal = literals.get(pointer);
+      if (literal !== undefined && Number(literal) === current) return literal;
+      // Safe integers are never rounded, and matching them would turn e.g. every 0 into an underflowed literal.
+      return (Number.isSafeInteger(current) ? null : byValue.get(current)) ?? JSON.stringify(current);
+    }
+    if (current === null || typeof current !== 'object') return JSON.stringify(current) ?? 'null';
+
+    const isArray = Array.isArray(current);
+    const entries = Object.entries(current).filter(([, child]) => isArray || child !== undefined);
+    if (entries.length === 0) return isArray ? '[]' : '{}';
+
+    const childIndent = indent + gap;
+    const items = entries.map(([childKey, child]) => {
+      const text = write(child, appendJsonPointer(pointer, childKey), childIndent);
+      return isArray ? text : `${JSON.stringify(childKey)}:${gap ? ' ' : ''}${text}`;
+    });
+    const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+    return gap
+      ? `${open}\n${childIndent}${items.join(`,\n${childIndent}`)}\n${indent}${close}`
+      : `${open}${items.join(',')}${close}`;
+  };
+
+  return write(value, path, '');
+};
+
+/** Moves the literals under `from` to the same place under `to`, e.g. for a query match that becomes a result item. */
+export const relocateNumberLiterals = (literals: Map<string, string>, from: string, to: string): Array<[string, string]> =>
+  Array.from(literals).flatMap(([pointer, literal]): Array<[string, string]> =>
+    pointer === from || pointer.startsWith(`${from}/`) ? [[`${to}${pointer.slice(from.length)}`, literal]] : []
+  );
+
+/**
+ * Finds the literals of a value computed from a document, e.g. a jq result,
+ * by matching its numbers against the document's literals by value.
+ */
+export const matchNumberLiterals = (value: unknown, literals: Map<string, string>): Map<string, string> => {
+  const matched = new Map<string, string>();
+  if (literals.size === 0) return matched;
+
+  const byValue = indexByValue(literals);
+  const visit = (current: unknown, pointer: string) => {
+    if (typeof current === 'number') {
+      const literal = Number.isSafeInteger(current) ? null : byValue.get(current);
+      if (literal) matched.set(pointer, literal);
+    } else if (current !== null && typeof current === 'object') {
+      Object.entries(current).forEach(([key, child]) => visit(child, appendJsonPointer(pointer, key)));
+    }
+  };
+  visit(value, '');
+  return matched;
+};
@@ -0,0 +1,400 @@
+import { appendJsonPointer } from './jsonDiffUtils';
+import { JsonSearchMode } from '../types';
+
+export interface JsonPathMatch {
+  pointer: string;
+  value: unknown;
+}
+
+type Selector =
+  | { type: 'name'; name: string }
+  | { type: 'wildcard' }
+  | { type: 'index'; index: number }
+  | { type: 'slice'; start?: number; end?: number; step: number }
+  | { type: 'filter'; expression: FilterExpression };
+
+interface Segment {
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+type FilterExpression =
+  | { type: 'literal'; value: unknown }
+  | { type: 'path'; root: '@' | '$'; segments: Segment[] }
+  | { type: 'regex'; pattern: RegExp }
+  | { type: 'not'; operand: FilterExpression }
+  | { type: 'binary'; operator: string; left: FilterExpression; right: FilterExpression };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const childEntries = (value: unknown): Array<[string | number, unknown]> => {
+  if (Array.isArray(value)) return value.map((item, index) => [index, item]);
+  if (isObject(value)) return Object.entries(value);
+  return [];
+};
+
+const UNESCAPES: Record<string, string> = { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+/**
+ * Recursive-descent parser for JSONPath (RFC 9535 subset): child and
+ * descendant segments, names, wildcards, indices, slices, unions and
+ * `?` filters with comparisons, `=~` regex matching and `&&`/`||`/`!`.
+ */
+const parseJsonPath = (source: string): Segment[] => {
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${position + 1}`);
+  };
+  const peek = () => source[position] ?? '';
+  const rest = () => source.slice(position);
+  const skipWhitespace = () => {
+    while (/\s/.test(peek())) position++;
+  };
+  const consume = (text: string) => {
+    skipWhitespace();
+    if (!source.startsWith(text, position)) return false;
+    position += text.length;
+    return true;
+  };
+  const expect = (text: string) => {
+    if (!consume(text)) fail(`Expected "${text}"`);
+  };
+
+  const parseString = (): string => {
+    const quote = source[position++];
+    let text = '';
+    while (position < source.length && source[position] !== quote) {
+      const char = source[position++];
+      if (char !== '\\') {
+        text += char;
+        continue;
+      }
+      const escape = source[position++] ?? '';
+      if (escape === 'u') {
+        text += String.fromCharCode(parseInt(source.slice(position, position + 4), 16));
+        position += 4;
+      } else {
+        text += UNESCAPES[escape] ?? escape;
+      }
+    }
+    if (position >= source.length) fail('Unterminated string');
+    position++;
+    return text;
+  };
+
+  const parseDotSelector = (): Selector => {
+    if (peek() === '*') {
+      position++;
+      return { type: 'wildcard' };
+    }
+    const match = /^[A-Za-z_$\u0080-\uffff][\w$\u0080-\uffff-]*/.exec(rest());
+    if (!match) return fail('Expected a member name');
+    position += match[0].length;
+    return { type: 'name', name: match[0] };
+  };
+
+  const parseBracketSelector = (): Selector => {
+    skipWhitespace();
+    const char = peek();
+    if (char === '*') {
+      position++;
+      return { type: 'wildcard' };
+    }
+    if (char === '\'' || char === '"') {
+      return { type: 'name', name: parseString() };
+    }
+    if (char === '?') {
+      position++;
+      // Accepts both the RFC form `?expr` and the classic `?(expr)`.
+      return { type: 'filter', expression: parseOr() };
+    }
+
+    const slice = /^(-?\d+)?\s*:\s*(-?\d+)?\s*(?::\s*(-?\d+)?)?/.exec(rest());
+    if (slice && slice[0].includes(':')) {
+      position += slice[0].length;
+      const step = slice[3] === undefined ? 1 : Number(slice[3]);
+      if (step === 0) fail('Slice step cannot be 0');
+      return {
+        type: 'slice',
+        start: slice[1] === undefined ? undefined : Number(slice[1]),
+        end: slice[2] === undefined ? undefined : Number(slice[2]),
+        step,
+      };
+    }
+
+    const index = /^-?\d+/.exec(rest());
+    if (!index) return fail('Expected a selector');
+    position += index[0].length;
+    return { type: 'index', index: Number(index[0]) };
+  };
+
+  const parseBracket = (): Selector[] => {
+    expect('[');
+    const selectors = [parseBracketSelector()];
+    while (consume(',')) selectors.push(parseBracketSelector());
+    expect(']');
+    return selectors;
+  };
+
+  const parseSegments = (): Segment[] => {
+    const segments: Segment[] = [];
+    for (;;) {
+      if (source.startsWith('..', position)) {
+        position += 2;
+        segments.push({ descendant: true, selectors: peek() === '[' ? parseBracket() : [parseDotSelector()] });
+      } else if (peek() === '.') {
+        position++;
+        segments.push({ descendant: false, selectors: [parseDotSelector()] });
+      } else if (peek() === '[') {
+        segments.push({ descendant: false, selectors: parseBracket() });
+      } else {
+        return segments;
+      }
+    }
+  };
+
+  const parseUnary = (): FilterExpression => {
+    skipWhitespace();
+    const char = peek();
+
+    if (char === '!') {
+      position++;
+      return { type: 'not', operand: parseUnary() };
+    }
+    if (char === '(') {
+      position++;
+      const expression = parseOr();
+      expect(')');
+      return expression;
+    }
+    if (char === '@' || char === '$') {
+      position++;
+      return { type: 'path', root: char, segments: parseSegments() };
+    }
+    if (char === '\'' || char === '"') {
+      return { type: 'literal', value: parseString() };
+    }
+    if (char === '/') {
+      const regex = /^\/((?:\\.|[^/\\])+)\/([imsu]*)/.exec(rest());
+      if (!regex) return fail('Invalid regular expression');
+      position += regex[0].length;
+      return { type: 'regex', pattern: new RegExp(regex[1], regex[2]) };
+    }
+
+    const literal = /^(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(rest());
+    if (!literal) return fail('Expected a filter operand');
+    position += literal[0].length;
+    return { type: 'literal', value: JSON.parse(literal[0]) };
+  };
+
+  const parseComparison = (): FilterExpression => {
+    const left = parseUnary();
+    skipWhitespace();
+    const operator = ['==', '!=', '<=', '>=', '=~', '<', '>'].find(op => source.startsWith(op, position));
+    if (!operator) return left;
+    position += operator.length;
+    return { type: 'binary', operator, left, right: parseUnary() };
+  };
+
+  const parseAnd = (): FilterExpression => {
+    let left = parseComparison();
+    while (consume('&&')) left = { type: 'binary', operator: '&&', left, right: parseComparison() };
+    return left;
+  };
+
+  const parseOr = (): FilterExpression => {
+    let left = parseAnd();
+    while (consume('||')) left = { type: 'binary', operator: '||', left, right: parseAnd() };
+    return left;
+  };
+
+  skipWhitespace();
+  if (peek() !== '$') fail('A JSONPath must start with $');
+  position++;
+  const segments = parseSegments();
+  skipWhitespace();
+  if (position < source.length) fail(`Unexpected "${peek()}"`);
+  return segments;
+};
+
+const normalizeIndex = (index: number, length: number) => (index < 0 ? length + index : index);
+
+const selectChildren = (
+  selector: Selector,
+  node: JsonPathMatch,
+  root: unknown
+): JsonPathMatch[] => {
+  const { value, pointer } = node;
+
+  switch (selector.type) {
+    case 'name':
+      return isObject(value) && Object.prototype.hasOwnProperty.call(value, selector.name)
+        ? [{ pointer: appendJsonPointer(pointer, selector.name), value: value[selector.name] }]
+        : [];
+    case 'wildcard':
+      return childEntries(value).map(([key, child]) => ({ pointer: appendJsonPointer(pointer, key), value: child }));
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      const index = normalizeIndex(selector.index, value.length);
+      return index >= 0 && index < value.length
+        ? [{ pointer: appendJsonPointer(pointer, index), value: value[index] }]
+        : [];
+    }
+    case 'slice': {
+      if (!Array.isArray(value)) return [];
+      const { length } = value;
+      const { step } = selector;
+      const clamp = (index: number, low: number, high: number) => Math.min(Math.max(index, low), high);
+      const results: JsonPathMatch[] = [];
+      if (step > 0) {
+        const start = clamp(normalizeIndex(selector.start ?? 0, length), 0, length);
+        const end = clamp(normalizeIndex(selector.end ?? length, length), 0, length);
+        for (let index = start; index < end; index += step) {
+          results.push({ pointer: appendJsonPointer(pointer, index), value: value[index] });
+        }
+      } else {
+        const start = clamp(normalizeIndex(selector.start ?? length - 1, length), -1, length - 1);
+        const end = clamp(selector.end === undefined ? -1 : normalizeIndex(selector.end, length), -1, length - 1);
+        for (let index = start; index > end; index += step) {
+          results.push({ pointer: appendJsonPointer(pointer, index), value: value[index] });
+        }
+      }
+      return results;
+    }
+    case 'filter':
+      return childEntries(value)
+        .filter(([, child]) => testFilter(selector.expression, child, root))
+        .map(([key, child]) => ({ pointer: appendJsonPointer(pointer, key), value: child }));
+  }
+};
+
+const descendants = (node: JsonPathMatch): JsonPathMatch[] => [
+  node,
+  ...childEntries(node.value).flatMap(([key, child]) =>
+    descendants({ pointer: appendJsonPointer(node.pointer, key), value: child })),
+];
+
+const applySegments = (segments: Segment[], start: JsonPathMatch[], root: unknown): JsonPathMatch[] =>
+  segments.reduce<JsonPathMatch[]>((nodes, segment) => {
+    const targets = segment.descendant ? nodes.flatMap(descendants) : nodes;
+    return targets.flatMap(node => segment.selectors.flatMap(selector => selectChildren(selector, node, root)));
+  }, start);
+
+// A path operand that matched nothing is distinct from one that matched `null`.
+const NOTHING = Symbol('nothing');
+
+const selectFilterPath = (expression: Extract<FilterExpression, { type: 'path' }>, current: unknown, root: unknown) =>
+  applySegments(expression.segments, [{ pointer: '', value: expression.root === '@' ? current : root }], root);
+
+const compareOperands = (operator: string, left: unknown, right: unknown): boolean => {
+  if (left === NOTHING || right === NOTHING) return operator === '!=' ? left !== right : false;
+
+  switch (operator) {
+    case '==': return JSON.stringify(left) === JSON.stringify(right);
+    case '!=': return JSON.stringify(left) !== JSON.stringify(right);
+    case '=~': return typeof left === 'string' && right instanceof RegExp && right.test(left);
+  }
+  const comparable = (typeof left === 'number' && typeof right === 'number')
+    || (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) return false;
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+  }
+  return false;
+};
+
+// The value a comparison sees: a path yields its first match, not whether it matched.
+const evaluateOperand = (expression: FilterExpression, current: unknown, root: unknown): unknown => {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+    case 'regex':
+      return expression.pattern;
+    case 'path': {
+      const [first] = selectFilterPath(expression, current, root);
+      return first ? first.value : NOTHING;
+    }
+    default:
+      return testFilter(expression, current, root);
+  }
+};
+
+/**
+ * Whether a filter keeps a node. A bare path is an existence test, as in
+ * RFC 9535: `?(@.flag)` keeps nodes that have `flag` even when it is false
+ * or null.
+ */
+const testFilter = (expression: FilterExpression, current: unknown, root: unknown): boolean => {
+  switch (expression.type) {
+    case 'path':
+      return selectFilterPath(expression, current, root).length > 0;
+    case 'not':
+      return !testFilter(expression.operand, current, root);
+    case 'binary':
+      if (expression.operator === '&&') return testFilter(expression.left, current, root) && testFilter(expression.right, current, root);
+      if (expression.operator === '||') return testFilter(expression.left, current, root) || testFilter(expression.right, current, root);
+      return compareOperands(
+        expression.operator,
+        evaluateOperand(expression.left, current, root),
+        evaluateOperand(expression.right, current, root)
+      );
+    default:
+      return evaluateOperand(expression, current, root) === true;
+  }
+};
+
+/**
+ * Evaluates a JSONPath expression and returns every match with its JSON
+ * Pointer. Throws with the position of the problem when the path is invalid.
+ */
+export const evaluateJsonPath = (document: unknown, path: string): JsonPathMatch[] => {
+  const segments = parseJsonPath(path);
+  return applySegments(segments, [{ pointer: '', value: document }], document);
+};
+
+/**
+ * Finds the nodes whose key or primitive value matches the query. Text
+ * queries are case-insensitive substrings; JSONPath matches are returned as
+ * is. Results are in document order.
+ */
+export const searchJson = (document: unknown, query: string, mode: JsonSearchMode): string[] => {
+  if (mode === 'jsonpath') {
+    return evaluateJsonPath(document, query).map(match => match.pointer);
+  }
+
+  const pattern = mode === 'regex' ? new RegExp(query, 'i') : null;
+  const needle = query.toLowerCase();
+  const matches = (text: string) => (pattern ? pattern.test(text) : text.toLowerCase().includes(needle));
+  const results: string[] = [];
+
+  const visit = (value: unknown, key: string | number | null, pointer: string) => {
+    const keyMatches = typeof key === 'string' && matches(key);
+    const valueMatches = (value === null || typeof value !== 'object') && matches(String(value));
+    if (keyMatches || valueMatches) results.push(pointer);
+    childEntries(value).forEach(([childKey, child]) => visit(child, childKey, appendJsonPointer(pointer, childKey)));
+  };
+
+  visit(document, null, '');
+  return results;
+};
+
+/** Splits a JSON Pointer into the pointers of its ancestors, root first. */
+export const getAncestorPointers = (pointer: string): string[] => {
+  const ancestors: string[] = [];
+  for (let index = pointer.lastIndexOf('/'); index >= 0; index = pointer.lastIndexOf('/', index - 1)) {
+    ancestors.unshift(pointer.slice(0, index));
+    if (index === 0) break;
+  }
+  return ancestors;
+};
+
+/** Splits a JSON Pointer into its unescaped reference tokens. */
+export const parseJsonPointer = (pointer: string): string[] =>
+  pointer === '' ? [] : pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
@@ -0,0 +1,245 @@
+import { JsonDiagnostic, JsonRepairResult } from '../types';
+
+export const getLineAndColumn = (text: string, offset: number) => {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+};
+
+const describeChar = (char: string) => (char === '\n' ? 'line break' : `"${char}"`);
+
+/**
+ * Scans text with the strict JSON grammar and reports the first error with
+ * its position. Native `JSON.parse` messages differ between browsers and
+ * don't always carry a position, so this is used to explain a failed parse.
+ */
+export const findJsonError = (text: string): JsonDiagnostic | null => {
+  let position = 0;
+
+  const fail = (message: string, at = position): never => {
+    throw { message, offset: at, ...getLineAndColumn(text, at) } as JsonDiagnostic;
+  };
+
+  const skipWhitespace = () => {
+    while (position < text.length && ' \t\n\r'.includes(text[position])) position++;
+  };
+
+  const unexpected = (expected: string): never => {
+    if (position >= text.length) return fail(`Unexpected end of input, expected ${expected}`);
+    const char = text[position];
+    if (char === '\'') return fail('Strings and property names must use double quotes');
+    if (char === '/' && (text[position + 1] === '/' || text[position + 1] === '*')) return fail('Comments are not allowed in JSON');
+    const word = /^[A-Za-z_$][\w$]*/.exec(text.slice(position, position + 40));
+    if (word) return fail(`Unexpected identifier "${word[0]}", expected ${expected}`);
+    return fail(`Unexpected ${describeChar(char)}, expected ${expected}`);
+  };
+
+  const scanString = () => {
+    const start = position++;
+    while (position < text.length) {
+      const char = text[position];
+      if (char === '"') {
+        position++;
+        return;
+      }
+      if (char === '\\') {
+        const escape = text[position + 1];
+        if (escape === 'u') {
+          if (!/^[0-9a-fA-F]{4}$/.test(text.slice(position + 2, position + 6))) fail('Invalid unicode escape in string');
+          position += 6;
+        } else if (escape !== undefined && '"\\/bfnrt'.includes(escape)) {
+          position += 2;
+        } else {
+          fail(`Invalid escape sequence "\\${escape ?? ''}" in string`);
+        }
+        continue;
+      }
+      if (char < ' ') fail(char === '\n' ? 'Unterminated string (line break inside string)' : 'Unescaped control character in string');
+      position++;
+    }
+    fail('Unterminated string', start);
+  };
+
+  const scanValue = (): void => {
+    skipWhitespace();
+    const char = text[position];
+
+    if (char === '{') {
+      position++;
+      skipWhitespace();
+      if (text[position] === '}') {
+        position++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[position] !== '"') unexpected('a double-quoted property name');
+        scanString();
+        skipWhitespace();
+        if (text[position] !== ':') unexpected('":" after property name');
+        position++;
+        scanValue();
+        skipWhitespace();
+        if (text[position] === '}') {
+          position++;
+          return;
+        }
+        if (text[position] !== ',') unexpected('"," or "}" after property value');
+        const comma = position++;
+        skipWhitespace();
+        if (text[position] === '}') fail('Trailing comma is not allowed before "}"', comma);
+      }
+    }
+
+    if (char === '[') {
+      position++;
+      skipWhitespace();
+      if (text[position] === ']') {
+        position++;
+        return;
+      }
+      for (;;) {
+        scanValue();
+        skipWhitespace();
+        if (text[position] === ']') {
+          position++;
+          return;
+        }
+        if (text[position] !== ',') unexpected('"," or "]" after array item');
+        const comma = position++;
+        skipWhitespace();
+        if (text[position] === ']') fail('Trailing comma is not allowed before "]"', comma);
+      }
+    }
+
+    if (char === '"') {
+      scanString();
+      return;
+    }
+
+    const number = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(text.slice(position, position + 400));
+    if (number && (char === '-' || (char >= '0' && char <= '9'))) {
+      position += number[0].length;
+      return;
+    }
+    if (char === '-' || (char >= '0' && char <= '9')) fail('Invalid number');
+
+    for (const literal of ['true', 'false', 'null']) {
+      if (text.startsWith(literal, position)) {
+        position += literal.length;
+        return;
+      }
+    }
+
+    unexpected('a value');
+  };
+
+  try {
+    scanValue();
+    skipWhitespace();
+    if (position < text.length) fail(`Unexpected ${describeChar(text[position])} after the end of the JSON value`);
+    return null;
+  } catch (diagnostic) {
+    if (diagnostic instanceof Error) throw diagnostic;
+    return diagnostic as JsonDiagnostic;
+  }
+};
+
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null', undefined: 'null' };
+
+/**
+ * Rewrites the usual near-JSON found in logs and source code into valid
+ * JSON: comments, trailing commas, single-quoted strings, unquoted keys and
+ * Python/JavaScript literals. Every change is listed with its line number.
+ */
+export const repairJson = (text: string): JsonRepairResult => {
+  const changes: string[] = [];
+  let output = '';
+  let position = 0;
+
+  // Changes are recorded in text order, so line numbers can be counted incrementally.
+  let counted = 0;
+  let line = 1;
+  const record = (at: number, change: string) => {
+    for (; counted < at; counted++) {
+      if (text[counted] === '\n') line++;
+    }
+    changes.push(`Line ${line}: ${change}`);
+  };
+
+  // Index of the next character that isn't whitespace or part of a comment.
+  const nextSignificant = (from: number) => {
+    let index = from;
+    for (;;) {
+      while (index < text.length && /\s/.test(text[index])) index++;
+      if (text.startsWith('//', index)) {
+        const end = text.indexOf('\n', index);
+        index = end === -1 ? text.length : end;
+      } else if (text.startsWith('/*', index)) {
+        const end = text.indexOf('*/', index + 2);
+        index = end === -1 ? text.length : end + 2;
+      } else {
+        return index;
+      }
+    }
+  };
+
+  while (position < text.length) {
+    const char = text[position];
+
+    if (char === '"') {
+      let end = position + 1;
+      while (end < text.length && text[end] !== '"' && text[end] !== '\n') end += text[end] === '\\' ? 2 : 1;
+      output += text.slice(position, end + 1);
+      position = end + 1;
+    } else if (char === '\'') {
+      let end = position + 1;
+      let content = '';
+      while (end < text.length && text[end] !== '\'' && text[end] !== '\n') {
+        if (text[end] === '\\' && text[end + 1] === '\'') {
+          content += '\'';
+          end += 2;
+        } else if (text[end] === '\\') {
+          content += text.slice(end, end + 2);
+          end += 2;
+        } else {
+          content += text[end] === '"' ? '\\"' : text[end];
+          end++;
+        }
+      }
+      record(position, `converted single-quoted string '${content.slice(0, 20)}' to double quotes`);
+      output += `"${content}"`;
+      position = end + 1;
+    } else if (text.startsWith('//', position) || text.startsWith('/*', position)) {
+      const lineComment = text[position + 1] === '/';
+      const end = text.indexOf(lineComment ? '\n' : '*/', position + 2);
+      record(position, 'removed comment');
+      position = end === -1 ? text.length : lineComment ? end : end + 2;
+    } else if (char === ',') {
+      const next = nextSignificant(position + 1);
+      if (text[next] === '}' || text[next] === ']') {
+        record(position, 'removed trailing comma');
+      } else {
+        output += char;
+      }
+      position++;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const word = /^[A-Za-z_$][\w$]*/.exec(text.slice(position))![0];
+      if (text[nextSignificant(position + word.length)] === ':') {
+        record(position, `quoted property name ${word}`);
+        output += `"${word}"`;
+      } else if (PYTHON_LITERALS[word]) {
+        record(position, `replaced ${word} with ${PYTHON_LITERALS[word]}`);
+        output += PYTHON_LITERALS[word];
+      } else {
+        output += word;
+      }
+      position += word.length;
+    } else {
+      output += char;
+      position++;
+    }
+  }
+
+  return { text: output, changes };
+};
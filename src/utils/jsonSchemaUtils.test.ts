@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { inferJsonSchema, validateJsonSchema } from './jsonSchemaUtils';
+
+const samples: Record<string, unknown> = {
+  scalars: { name: 'Ada', age: 36, ratio: 0.5, active: true, manager: null },
+  'string formats': {
+    createdAt: '2024-05-01T12:30:00Z',
+    createdAtWithOffset: '2024-05-01 12:30:00.123+02:00',
+    birthday: '1815-12-10',
+    alarm: '07:30:00Z',
+    alarmWithOffset: '07:30:00.5-05:00',
+    localTime: '07:30:00',
+    email: 'ada@example.com',
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    host: '192.168.0.1',
+    homepage: 'https://example.com/ada?tab=1',
+  },
+  'mixed arrays': { values: [1, 'two', null, { three: 3 }, [4]] },
+  'objects with different keys': { people: [{ name: 'Ada', email: 'ada@example.com' }, { name: 'Alan', age: 41 }] },
+  'integers and decimals': { readings: [1, 2.5, -3] },
+  'empty containers': { tags: [], meta: {} },
+  'top-level array': [{ id: 1 }, { id: 2, extra: ['a'] }],
+};
+
+describe('inferJsonSchema', () => {
+  it.each(Object.entries(samples))('accepts its own document: %s', (_, sample) => {
+    expect(validateJsonSchema(sample, inferJsonSchema(sample))).toEqual([]);
+  });
+
+  it('only marks times with an offset as the time format', () => {
+    const schema = inferJsonSchema({ zoned: '07:30:00Z', local: '07:30:00' });
+    expect(schema.properties).toMatchObject({
+      zoned: { type: 'string', format: 'time' },
+      local: { type: 'string' },
+    });
+    expect((schema.properties as Record<string, Record<string, unknown>>).local.format).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+import Ajv from 'ajv';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { JsonSchemaViolation } from '../types';
+
+export type JsonSchema = Record<string, unknown>;
+
+const DRAFT_2020_12 = 'https://json-schema.org/draft/2020-12/schema';
+
+const STRING_FORMATS: Array<[string, RegExp]> = [
+  ['date-time', /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['time', /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['ipv4', /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/],
+  ['uri', /^[a-z][a-z\d+.-]*:\/\/[^\s]+$/i],
+];
+
+const detectStringFormat = (value: string) => STRING_FORMATS.find(([, pattern]) => pattern.test(value))?.[0];
+
+const inferValue = (value: unknown): JsonSchema => {
+  if (value === null) return { type: 'null' };
+  if (Array.isArray(value)) {
+    return value.length > 0 ? { type: 'array', items: mergeSchemas(value.map(inferValue)) } : { type: 'array' };
+  }
+  if (typeof value === 'object') {
+    const properties = Object.fromEntries(Object.entries(value).map(([key, child]) => [key, inferValue(child)]));
+    return { type: 'object', properties, required: Object.keys(properties) };
+  }
+  if (typeof value === 'number') return { type: Number.isInteger(value) ? 'integer' : 'number' };
+  if (typeof value === 'string') {
+    const format = detectStringFormat(value);
+    return format ? { type: 'string', format } : { type: 'string' };
+  }
+  return { type: typeof value };
+};
+
+const mergeSameType = (type: string, schemas: JsonSchema[]): JsonSchema => {
+  if (type === 'object') {
+    const keys = Array.from(new Set(schemas.flatMap(schema => Object.keys(schema.properties as JsonSchema))));
+    const properties = Object.fromEntries(keys.map(key => [
+      key,
+      mergeSchemas(schemas.map(schema => (schema.properties as JsonSchema)[key] as JsonSchema | undefined).filter((child): child is JsonSchema => !!child)),
+    ]));
+    // A property is only required if every sampled object had it.
+    const required = keys.filter(key => schemas.every(schema => (schema.required as string[]).includes(key)));
+    return { type, properties, required };
+  }
+
+  if (type === 'array') {
+    const items = schemas.map(schema => schema.items as JsonSchema | undefined).filter((item): item is JsonSchema => !!item);
+    return items.length > 0 ? { type, items: mergeSchemas(items) } : { type };
+  }
+
+  if (type === 'string') {
+    const format = schemas[0].format;
+    return format && schemas.every(schema => schema.format === format) ? { type, format } : { type };
+  }
+
+  return { type };
+};
+
+// Breaks an already merged schema (a type list or anyOf) back into one schema per type.
+const splitSchema = (schema: JsonSchema): JsonSchema[] => {
+  if (Array.isArray(schema.anyOf)) return (schema.anyOf as JsonSchema[]).flatMap(splitSchema);
+  if (!Array.isArray(schema.type)) return [schema];
+  // Only the nullable form of a shape carries keywords besides the type list, and they belong to the shape.
+  return (schema.type as string[]).map(type => (type === 'null' ? { type } : { ...schema, type }));
+};
+
+/**
+ * Combines the schemas of several samples (e.g. the items of one array)
+ * into one schema that accepts all of them.
+ */
+const mergeSchemas = (samples: JsonSchema[]): JsonSchema => {
+  const schemas = samples.flatMap(splitSchema);
+  const byType = new Map<string, JsonSchema[]>();
+  schemas.forEach(schema => {
+    // Integers and other numbers in the same position are all just numbers.
+    const type = schema.type === 'integer' && schemas.some(other => other.type === 'number') ? 'number' : String(schema.type);
+    byType.set(type, [...(byType.get(type) ?? []), { ...schema, type }]);
+  });
+
+  const merged = Array.from(byType, ([type, group]) => mergeSameType(type, group));
+  if (merged.length === 1) return merged[0];
+
+  // Scalars and a single nullable shape read better as a type list than as anyOf.
+  const complex = merged.filter(schema => Object.keys(schema).length > 1);
+  if (complex.length === 0) return { type: merged.map(schema => schema.type) };
+  if (complex.length === 1 && merged.length === 2 && byType.has('null')) {
+    return { ...complex[0], type: [complex[0].type, 'null'] };
+  }
+  return { anyOf: merged };
+};
+
+/**
+ * Infers a draft 2020-12 JSON Schema from a sample document. Array items
+ * are merged into one shape, properties missing from some items become
+ * optional, and common string formats are detected.
+ */
+export const inferJsonSchema = (value: unknown): JsonSchema => ({ $schema: DRAFT_2020_12, ...inferValue(value) });
+
+const describeViolation = (error: { keyword: string; message?: string; params: Record<string, unknown> }) => {
+  if (error.keyword === 'additionalProperties') return `must not have additional property '${error.params.additionalProperty}'`;
+  if (error.keyword === 'enum') return `must be one of ${JSON.stringify(error.params.allowedValues)}`;
+  return error.message ?? `fails ${error.keyword}`;
+};
+
+/**
+ * Validates a document against a schema, returning every violation with
+ * the JSON Pointer of the offending value. Schemas declaring draft-07 or
+ * earlier are validated with that draft; everything else with 2020-12.
+ * Throws if the schema itself is invalid.
+ */
+export const validateJsonSchema = (value: unknown, schema: JsonSchema): JsonSchemaViolation[] => {
+  const legacyDraft = typeof schema.$schema === 'string' && /draft-0[4-7]/.test(schema.$schema);
+  const ajv = legacyDraft ? new Ajv({ allErrors: true, strict: false }) : new Ajv2020({ allErrors: true, strict: false });
+  addFormats(ajv);
+
+  const validate = ajv.compile(schema);
+  if (validate(value)) return [];
+  return (validate.errors ?? []).map(error => ({
+    pointer: error.instancePath,
+    keyword: error.keyword,
+    message: describeViolation(error),
+  }));
+};
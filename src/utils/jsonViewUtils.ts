@@ -0,0 +1,178 @@
+import { appendJsonPointer } from './jsonDiffUtils';
+import { getJsonValueType } from './jsonEditUtils';
+import { getAncestorPointers, parseJsonPointer } from './jsonPathUtils';
+import { syntaxTokenClasses } from './syntaxUtils';
+import { JsonLine, JsonNode, JsonTable, JsonValueType } from '../types';
+
+// Column for array items that aren't objects.
+export const VALUE_COLUMN = '(value)';
+
+// How many containers the table view inspects looking for an array of objects to show.
+const MAX_TABLE_SEARCH = 10_000;
+
+export const jsonValueClasses: Record<JsonValueType, string> = {
+  string: syntaxTokenClasses.string,
+  number: syntaxTokenClasses.number,
+  boolean: syntaxTokenClasses.literal,
+  null: syntaxTokenClasses.literal,
+  object: syntaxTokenClasses.punctuation,
+  array: syntaxTokenClasses.punctuation,
+};
+
+/** One-line preview of a value: containers show their size, long strings are cut off. */
+export const formatJsonPreview = (value: unknown, type: JsonValueType, maxLength = 120): string => {
+  if (type === 'object') return `{${Object.keys(value as object).length}}`;
+  if (type === 'array') return `[${(value as unknown[]).length}]`;
+  const text = JSON.stringify(value) ?? 'null';
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const getValueAt = (document: unknown, pointer: string): unknown =>
+  parseJsonPointer(pointer).reduce<unknown>(
+    (current, token) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[token] : undefined),
+    document
+  );
+
+/**
+ * Builds the `JsonNode` tree of a document, descending only into expanded
+ * containers and only as far as each container's page limit.
+ */
+export const buildJsonNodeTree = (
+  value: unknown,
+  isExpanded: (path: string) => boolean,
+  getChildLimit: (path: string) => number,
+  key = 'root',
+  path = ''
+): JsonNode => {
+  const type = getJsonValueType(value);
+  const keys = type === 'object' ? Object.keys(value as object) : null;
+  const childCount = keys ? keys.length : type === 'array' ? (value as unknown[]).length : 0;
+  const node: JsonNode = { key, path, value, type, childCount };
+
+  if (childCount > 0 && isExpanded(path)) {
+    node.isExpanded = true;
+    const limit = Math.min(childCount, getChildLimit(path));
+    node.children = [];
+    for (let index = 0; index < limit; index++) {
+      const childKey = keys ? keys[index] : String(index);
+      node.children.push(buildJsonNodeTree(
+        (value as Record<string, unknown>)[childKey],
+        isExpanded,
+        getChildLimit,
+        keys ? childKey : `[${index}]`,
+        appendJsonPointer(path, childKey)
+      ));
+    }
+  }
+  return node;
+};
+
+/**
+ * Picks the array the table view shows: the selected array or the closest
+ * array around the selection, otherwise the first array of objects in the
+ * document, breadth first.
+ */
+export const findTablePath = (document: unknown, selectedPath: string | null): string | null => {
+  if (selectedPath !== null) {
+    const candidates = [...getAncestorPointers(selectedPath), selectedPath].reverse();
+    const match = candidates.find(pointer => Array.isArray(getValueAt(document, pointer)));
+    if (match !== undefined) return match;
+  }
+
+  const queue: Array<[unknown, string]> = [[document, '']];
+  for (let visited = 0; visited < queue.length && visited < MAX_TABLE_SEARCH; visited++) {
+    const [current, pointer] = queue[visited];
+    if (Array.isArray(current)) {
+      if (current.some(isObject)) return pointer;
+      current.forEach((item, index) => queue.push([item, appendJsonPointer(pointer, index)]));
+    } else if (isObject(current)) {
+      Object.entries(current).forEach(([key, child]) => queue.push([child, appendJsonPointer(pointer, key)]));
+    }
+  }
+  return Array.isArray(document) ? '' : null;
+};
+
+/** Lays out an array as rows with one column per key found in its items, in order of first appearance. */
+export const getJsonTable = (document: unknown, path: string): JsonTable => {
+  const items = getValueAt(document, path);
+  if (!Array.isArray(items)) return { path, columns: [], rows: [] };
+
+  const columns = new Set<string>();
+  items.forEach(item => {
+    if (isObject(item)) {
+      Object.keys(item).forEach(key => columns.add(key));
+    } else {
+      columns.add(VALUE_COLUMN);
+    }
+  });
+
+  const columnList = Array.from(columns);
+  const rows = items.map((item, index) => ({
+    path: appendJsonPointer(path, index),
+    cells: columnList.map(column => {
+      if (isObject(item)) return Object.prototype.hasOwnProperty.call(item, column) ? item[column] : undefined;
+      return column === VALUE_COLUMN ? item : undefined;
+    }),
+  }));
+  return { path, columns: columnList, rows };
+};
+
+const TYPE_ORDER = ['number', 'string', 'boolean', 'null', 'array', 'object'];
+
+/** Orders cell values for sorting: numbers numerically, strings naturally, then by type; missing values last. */
+export const compareJsonValues = (a: unknown, b: unknown): number => {
+  if (a === undefined || b === undefined) return a === b ? 0 : a === undefined ? 1 : -1;
+
+  const typeA = getJsonValueType(a);
+  const typeB = getJsonValueType(b);
+  if (typeA !== typeB) return TYPE_ORDER.indexOf(typeA) - TYPE_ORDER.indexOf(typeB);
+
+  switch (typeA) {
+    case 'number':
+      return (a as number) - (b as number);
+    case 'string':
+      return (a as string).localeCompare(b as string, undefined, { numeric: true });
+    case 'boolean':
+      return Number(a) - Number(b);
+    case 'array':
+      return (a as unknown[]).length - (b as unknown[]).length;
+    case 'object':
+      return Object.keys(a as object).length - Object.keys(b as object).length;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Pretty-prints a document like `JSON.stringify(value, null, indent)`,
+ * tagging every line with its value's path. Numbers in `numberLiterals` are
+ * written as their original text.
+ */
+export const formatJsonLines = (value: unknown, numberLiterals = new Map<string, string>(), indent = 2): JsonLine[] => {
+  const lines: JsonLine[] = [];
+
+  const write = (current: unknown, path: string, prefix: string, depth: number, suffix: string) => {
+    const padding = ' '.repeat(depth * indent);
+    const entries = current !== null && typeof current === 'object' ? Object.entries(current) : [];
+
+    if (entries.length === 0) {
+      const text = numberLiterals.get(path) ?? JSON.stringify(current) ?? 'null';
+      lines.push({ text: `${padding}${prefix}${text}${suffix}`, path });
+      return;
+    }
+
+    const isArray = Array.isArray(current);
+    lines.push({ text: `${padding}${prefix}${isArray ? '[' : '{'}`, path });
+    entries.forEach(([key, child], index) => {
+      const childSuffix = index < entries.length - 1 ? ',' : '';
+      write(child, appendJsonPointer(path, key), isArray ? '' : `${JSON.stringify(key)}: `, depth + 1, childSuffix);
+    });
+    lines.push({ text: `${padding}${isArray ? ']' : '}'}${suffix}`, path });
+  };
+
+  write(value, '', '', 0, '');
+  return lines;
+};
@@ -0,0 +1,204 @@
+import { DiffEdit, diffLines, splitLines } from './diffUtils';
+import { MergeChunk, MergeResolution } from '../types';
+
+export interface ConflictSides {
+  base: string;
+  ours: string;
+  theirs: string;
+  conflicts: number;
+}
+
+interface ChangeHunk {
+  side: 'ours' | 'theirs';
+  baseStart: number;
+  baseEnd: number;
+  sideStart: number;
+  sideEnd: number;
+}
+
+// Collapses runs of inserts and deletes into hunks expressed as half-open ranges on both sequences.
+const toChangeHunks = (edits: DiffEdit[], side: ChangeHunk['side']): ChangeHunk[] => {
+  const hunks: ChangeHunk[] = [];
+  let current: ChangeHunk | null = null;
+
+  edits.forEach(edit => {
+    if (edit.op === 'equal') {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { side, baseStart: edit.oldIndex, baseEnd: edit.oldIndex, sideStart: edit.newIndex, sideEnd: edit.newIndex };
+      hunks.push(current);
+    }
+    if (edit.op === 'delete') {
+      current.baseEnd++;
+    } else {
+      current.sideEnd++;
+    }
+  });
+
+  return hunks;
+};
+
+const linesEqual = (a: string[], b: string[]) => a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * Merges `ours` and `theirs` against their common `base` (diff3). Regions
+ * changed by only one side, or changed identically by both, are taken
+ * automatically; regions where both sides changed overlapping or adjacent
+ * base lines differently become conflicts.
+ */
+export const mergeThreeWay = (baseText: string, oursText: string, theirsText: string): MergeChunk[] => {
+  const base = splitLines(baseText);
+  const sides = { ours: splitLines(oursText), theirs: splitLines(theirsText) };
+  const hunks = [
+    ...toChangeHunks(diffLines(base, sides.ours), 'ours'),
+    ...toChangeHunks(diffLines(base, sides.theirs), 'theirs'),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const chunks: MergeChunk[] = [];
+  const pushStable = (source: 'base' | 'ours' | 'theirs' | 'both', lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last && last.type === 'stable' && last.source === source) {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ type: 'stable', source, lines });
+    }
+  };
+
+  let baseOffset = 0;
+  let index = 0;
+
+  while (index < hunks.length) {
+    const group = [hunks[index]];
+    const regionStart = hunks[index].baseStart;
+    let regionEnd = hunks[index].baseEnd;
+    index++;
+    while (index < hunks.length && hunks[index].baseStart <= regionEnd) {
+      regionEnd = Math.max(regionEnd, hunks[index].baseEnd);
+      group.push(hunks[index++]);
+    }
+
+    pushStable('base', base.slice(baseOffset, regionStart));
+
+    // Maps the merged base region onto one side, extending its first and last hunk by the unchanged base lines around them.
+    const sideLines = (side: ChangeHunk['side']) => {
+      const sideHunks = group.filter(hunk => hunk.side === side);
+      if (sideHunks.length === 0) return base.slice(regionStart, regionEnd);
+      const first = sideHunks[0];
+      const last = sideHunks[sideHunks.length - 1];
+      const start = first.sideStart - (first.baseStart - regionStart);
+      const end = last.sideEnd + (regionEnd - last.baseEnd);
+      return sides[side].slice(start, end);
+    };
+
+    const ours = sideLines('ours');
+    const theirs = sideLines('theirs');
+    const touchedBy = new Set(group.map(hunk => hunk.side));
+
+    if (touchedBy.size === 1) {
+      const [side] = touchedBy;
+      pushStable(side, side === 'ours' ? ours : theirs);
+    } else if (linesEqual(ours, theirs)) {
+      pushStable('both', ours);
+    } else {
+      chunks.push({ type: 'conflict', base: base.slice(regionStart, regionEnd), ours, theirs });
+    }
+
+    baseOffset = regionEnd;
+  }
+
+  pushStable('base', base.slice(baseOffset));
+  return chunks;
+};
+
+export const resolveConflict = (chunk: Extract<MergeChunk, { type: 'conflict' }>, resolution: MergeResolution) => {
+  switch (resolution) {
+    case 'ours':
+      return chunk.ours;
+    case 'theirs':
+      return chunk.theirs;
+    case 'both':
+      return [...chunk.ours, ...chunk.theirs];
+    default:
+      return chunk.base;
+  }
+};
+
+/**
+ * Joins merge chunks into the result text. Conflicts without a resolution
+ * (keyed by chunk index) are written out with diff3-style markers.
+ */
+export const buildMergedText = (chunks: MergeChunk[], resolutions: Record<number, MergeResolution>): string => {
+  const lines: string[] = [];
+
+  chunks.forEach((chunk, index) => {
+    if (chunk.type === 'stable') {
+      lines.push(...chunk.lines);
+    } else if (resolutions[index]) {
+      lines.push(...resolveConflict(chunk, resolutions[index]));
+    } else {
+      lines.push('<<<<<<< ours', ...chunk.ours, '||||||| base', ...chunk.base, '=======', ...chunk.theirs, '>>>>>>> theirs');
+    }
+  });
+
+  return lines.join('\n');
+};
+
+const MARKERS = {
+  start: /^<{7}(?:\s|$)/,
+  base: /^\|{7}(?:\s|$)/,
+  separator: /^={7}$/,
+  end: /^>{7}(?:\s|$)/,
+};
+
+/**
+ * Splits a file containing `<<<<<<<`/`=======`/`>>>>>>>` conflict markers
+ * back into the three merge inputs. When a conflict has no `|||||||` base
+ * section (git's default `merge` style), its base is taken to be empty.
+ */
+export const parseConflictMarkers = (text: string): ConflictSides => {
+  const base: string[] = [];
+  const ours: string[] = [];
+  const theirs: string[] = [];
+  let section: 'common' | 'ours' | 'base' | 'theirs' = 'common';
+  let conflicts = 0;
+
+  splitLines(text).forEach((line, index) => {
+    const fail = (message: string) => {
+      throw new Error(`Line ${index + 1}: ${message}`);
+    };
+
+    if (MARKERS.start.test(line)) {
+      if (section !== 'common') fail('nested conflict start marker');
+      section = 'ours';
+      conflicts++;
+    } else if (MARKERS.base.test(line) && section !== 'common') {
+      if (section !== 'ours') fail('unexpected base marker');
+      section = 'base';
+    } else if (MARKERS.separator.test(line) && section !== 'common') {
+      if (section === 'theirs') fail('duplicate separator marker');
+      section = 'theirs';
+    } else if (MARKERS.end.test(line) && section !== 'common') {
+      if (section !== 'theirs') fail('conflict end marker before separator');
+      section = 'common';
+    } else if (section === 'common') {
+      base.push(line);
+      ours.push(line);
+      theirs.push(line);
+    } else if (section === 'ours') {
+      ours.push(line);
+    } else if (section === 'base') {
+      base.push(line);
+    } else {
+      theirs.push(line);
+    }
+  });
+
+  if (section !== 'common') {
+    throw new Error('Unterminated conflict: missing >>>>>>> marker');
+  }
+
+  return { base: base.join('\n'), ours: ours.join('\n'), theirs: theirs.join('\n'), conflicts };
+};
@@ -0,0 +1,225 @@
+import { DiffHunk, DiffLine, PatchFile } from '../types';
+import { splitFileLines } from './diffUtils';
+
+export interface PatchApplyResult {
+  text: string;
+  appliedHunks: DiffHunk[];
+  rejectedHunks: DiffHunk[];
+}
+
+export interface ReconstructedTexts {
+  original: string;
+  modified: string;
+  complete: boolean;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+// Strips the `a/`/`b/` prefixes git adds and any trailing timestamp GNU diff appends after a tab.
+const parsePath = (line: string) => {
+  const path = line.slice(4).split('\t')[0].trim();
+  return path === '/dev/null' ? path : path.replace(/^[ab]\//, '');
+};
+
+/**
+ * Parses unified diff text into files and hunks. Lines outside of file
+ * headers and hunks (commit messages, CI log noise, `diff --git` and `index`
+ * lines) are ignored. Throws if a hunk ends before its header's line counts.
+ */
+export const parsePatch = (text: string): PatchFile[] => {
+  const rawLines = text.split('\n');
+  // Only strip carriage returns when the whole patch is CRLF; otherwise they belong to the patched content.
+  const isCrlf = rawLines.length > 1 && rawLines.slice(0, -1).every(line => line.endsWith('\r'));
+  const lines = isCrlf ? rawLines.map(line => line.replace(/\r$/, '')) : rawLines;
+  const files: PatchFile[] = [];
+  let current: PatchFile | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      current = { oldPath: parsePath(line), newPath: parsePath(lines[i + 1]), hunks: [] };
+      files.push(current);
+      i += 2;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (!header) {
+      i++;
+      continue;
+    }
+
+    if (!current) {
+      current = { oldPath: '', newPath: '', hunks: [] };
+      files.push(current);
+    }
+
+    const hunk: DiffHunk = {
+      oldStart: Number(header[1]),
+      oldLines: header[2] === undefined ? 1 : Number(header[2]),
+      newStart: Number(header[3]),
+      newLines: header[4] === undefined ? 1 : Number(header[4]),
+      lines: [],
+    };
+    let oldLine = hunk.oldLines === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+    let newLine = hunk.newLines === 0 ? hunk.newStart + 1 : hunk.newStart;
+    let oldRemaining = hunk.oldLines;
+    let newRemaining = hunk.newLines;
+    i++;
+
+    while (i < lines.length && (oldRemaining > 0 || newRemaining > 0 || lines[i].startsWith('\\'))) {
+      const body = lines[i];
+      const marker = body[0];
+      let diffLine: DiffLine | null = null;
+
+      if (marker === '\\') {
+        const previous = hunk.lines[hunk.lines.length - 1];
+        if (previous) previous.noNewlineAtEnd = true;
+      } else if (marker === '-' && oldRemaining > 0) {
+        diffLine = { type: 'removed', content: body.slice(1), oldLineNumber: oldLine++ };
+        oldRemaining--;
+      } else if (marker === '+' && newRemaining > 0) {
+        diffLine = { type: 'added', content: body.slice(1), newLineNumber: newLine++ };
+        newRemaining--;
+      } else if ((marker === ' ' || body === '') && oldRemaining > 0 && newRemaining > 0) {
+        // Some editors strip the single space off blank context lines.
+        diffLine = { type: 'unchanged', content: body.slice(1), oldLineNumber: oldLine++, newLineNumber: newLine++ };
+        oldRemaining--;
+        newRemaining--;
+      } else {
+        break;
+      }
+
+      if (diffLine) hunk.lines.push(diffLine);
+      i++;
+    }
+
+    if (oldRemaining > 0 || newRemaining > 0) {
+      throw new Error(`Hunk "${line}" ends early: expected ${oldRemaining} more original and ${newRemaining} more modified lines`);
+    }
+
+    current.hunks.push(hunk);
+  }
+
+  return files.filter(file => file.hunks.length > 0);
+};
+
+const hunkSide = (hunk: DiffHunk, side: 'old' | 'new') => {
+  const skipped = side === 'old' ? 'added' : 'removed';
+  const lines = hunk.lines.filter(line => line.type !== skipped);
+  return {
+    lines: lines.map(line => line.content),
+    noNewlineAtEnd: lines.some(line => line.noNewlineAtEnd),
+  };
+};
+
+// Zero-based index of the first line a hunk covers; empty ranges point at the line before them.
+const hunkStartIndex = (hunk: DiffHunk, side: 'old' | 'new') => {
+  const start = side === 'old' ? hunk.oldStart : hunk.newStart;
+  const count = side === 'old' ? hunk.oldLines : hunk.newLines;
+  return count === 0 ? start : start - 1;
+};
+
+const matchesAt = (lines: string[], block: string[], position: number) =>
+  block.every((line, index) => lines[position + index] === line);
+
+// Searches outwards from the expected position so a hunk lands on the nearest matching block.
+const findBlock = (lines: string[], block: string[], expected: number, minPosition: number) => {
+  const maxPosition = lines.length - block.length;
+  if (maxPosition < minPosition) return -1;
+
+  const start = Math.min(Math.max(expected, minPosition), maxPosition);
+  for (let distance = 0; start - distance >= minPosition || start + distance <= maxPosition; distance++) {
+    if (start + distance <= maxPosition && matchesAt(lines, block, start + distance)) return start + distance;
+    if (distance > 0 && start - distance >= minPosition && matchesAt(lines, block, start - distance)) {
+      return start - distance;
+    }
+  }
+  return -1;
+};
+
+/**
+ * Applies hunks to `original` in order. Each hunk is placed where its
+ * context and removed lines match exactly, preferring the position closest
+ * to its header; hunks that match nowhere are rejected and left unapplied.
+ */
+export const applyPatch = (original: string, hunks: DiffHunk[]): PatchApplyResult => {
+  const { lines, endsWithNewline } = splitFileLines(original);
+  const appliedHunks: DiffHunk[] = [];
+  const rejectedHunks: DiffHunk[] = [];
+  let endsWithNewlineResult = endsWithNewline;
+  let offset = 0;
+  let minPosition = 0;
+
+  hunks.forEach(hunk => {
+    const oldSide = hunkSide(hunk, 'old');
+    const newSide = hunkSide(hunk, 'new');
+    const expected = hunkStartIndex(hunk, 'old') + offset;
+    const position = findBlock(lines, oldSide.lines, expected, minPosition);
+
+    if (position === -1) {
+      rejectedHunks.push(hunk);
+      return;
+    }
+
+    const reachesEnd = position + oldSide.lines.length === lines.length;
+    lines.splice(position, oldSide.lines.length, ...newSide.lines);
+    offset = position - hunkStartIndex(hunk, 'old') + newSide.lines.length - oldSide.lines.length;
+    minPosition = position + newSide.lines.length;
+
+    if (reachesEnd && (oldSide.noNewlineAtEnd || newSide.noNewlineAtEnd)) {
+      endsWithNewlineResult = !newSide.noNewlineAtEnd;
+    }
+    appliedHunks.push(hunk);
+  });
+
+  const text = lines.join('\n');
+  return {
+    text: endsWithNewlineResult && lines.length > 0 ? `${text}\n` : text,
+    appliedHunks,
+    rejectedHunks,
+  };
+};
+
+/**
+ * Rebuilds both sides of a patch from its hunks alone. Unchanged stretches
+ * between hunks are not part of the patch, so each is replaced by a single
+ * placeholder line and `complete` is false.
+ */
+export const reconstructFromPatch = (hunks: DiffHunk[]): ReconstructedTexts => {
+  const original: string[] = [];
+  const modified: string[] = [];
+  let nextOldIndex = 0;
+  let complete = true;
+  let originalNoNewline = false;
+  let modifiedNoNewline = false;
+
+  hunks.forEach(hunk => {
+    const gap = hunkStartIndex(hunk, 'old') - nextOldIndex;
+    if (gap > 0) {
+      const placeholder = `… ${gap} unchanged line${gap === 1 ? '' : 's'} not included in the patch …`;
+      original.push(placeholder);
+      modified.push(placeholder);
+      complete = false;
+    }
+
+    const oldSide = hunkSide(hunk, 'old');
+    const newSide = hunkSide(hunk, 'new');
+    original.push(...oldSide.lines);
+    modified.push(...newSide.lines);
+    originalNoNewline = oldSide.noNewlineAtEnd;
+    modifiedNoNewline = newSide.noNewlineAtEnd;
+    nextOldIndex = hunkStartIndex(hunk, 'old') + oldSide.lines.length;
+  });
+
+  const join = (lines: string[], noNewline: boolean) =>
+    lines.length === 0 || noNewline ? lines.join('\n') : `${lines.join('\n')}\n`;
+
+  return {
+    original: join(original, originalNoNewline),
+    modified: join(modified, modifiedNoNewline),
+    complete,
+  };
+};
@@ -0,0 +1,265 @@
+import { DiffSegment, SyntaxLanguage, SyntaxToken, SyntaxTokenKind } from '../types';
+
+export interface HighlightedSpan extends SyntaxToken {
+  changed: boolean;
+}
+
+interface LanguageRules {
+  lineComments: string[];
+  blockComment?: [string, string];
+  quotes: string[];
+  keywords: Set<string>;
+  literals: Set<string>;
+  caseInsensitive?: boolean;
+  // Identifiers or strings directly followed by `:` are object keys.
+  colonKeys?: boolean;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const jsKeywords = 'break case catch class const continue debugger default delete do else export extends finally for from function if import in instanceof let new of return static super switch this throw try typeof var void while with yield async await';
+
+const languageRules: Record<Exclude<SyntaxLanguage, 'plaintext'>, LanguageRules> = {
+  javascript: {
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: words(jsKeywords),
+    literals: words('true false null undefined NaN Infinity'),
+  },
+  typescript: {
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: words(`${jsKeywords} abstract as declare enum implements interface keyof namespace private protected public readonly satisfies type`),
+    literals: words('true false null undefined NaN Infinity'),
+  },
+  json: {
+    lineComments: [],
+    quotes: ['"'],
+    keywords: new Set(),
+    literals: words('true false null'),
+    colonKeys: true,
+  },
+  yaml: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    keywords: new Set(),
+    literals: words('true false null yes no on off ~'),
+    colonKeys: true,
+  },
+  sql: {
+    lineComments: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    keywords: words('select from where and or not insert into values update set delete create table alter drop index view join inner left right outer full on as group by order having limit offset distinct union all case when then else end primary key foreign references default unique is in between like exists asc desc returning with'),
+    literals: words('null true false'),
+    caseInsensitive: true,
+  },
+  python: {
+    lineComments: ['#'],
+    quotes: ['"', "'"],
+    keywords: words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield match case'),
+    literals: words('True False None self'),
+  },
+  go: {
+    lineComments: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: words('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var'),
+    literals: words('true false nil iota'),
+  },
+};
+
+export const syntaxLanguages: SyntaxLanguage[] = ['plaintext', 'javascript', 'typescript', 'json', 'yaml', 'sql', 'python', 'go'];
+
+export const syntaxTokenClasses: Record<SyntaxTokenKind, string> = {
+  plain: '',
+  keyword: 'text-purple-400',
+  literal: 'text-orange-400',
+  string: 'text-amber-300',
+  number: 'text-orange-400',
+  comment: 'text-muted-foreground italic',
+  property: 'text-sky-400',
+  function: 'text-blue-400',
+  type: 'text-teal-400',
+  punctuation: 'text-muted-foreground',
+};
+
+// Colours for exported HTML, which is rendered on a light background.
+export const syntaxTokenColors: Record<SyntaxTokenKind, string> = {
+  plain: 'inherit',
+  keyword: '#8250df',
+  literal: '#cf222e',
+  string: '#0a3069',
+  number: '#0550ae',
+  comment: '#6e7781',
+  property: '#0550ae',
+  function: '#8250df',
+  type: '#953800',
+  punctuation: '#57606a',
+};
+
+/**
+ * Guesses the language of a snippet from a few characteristic constructs.
+ * Falls back to `plaintext` when nothing matches.
+ */
+export const detectLanguage = (text: string): SyntaxLanguage => {
+  const sample = text.slice(0, 5000);
+  const trimmed = sample.trim();
+  if (!trimmed) return 'plaintext';
+
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(text);
+      return 'json';
+    } catch {
+      // Not strict JSON; keep looking.
+    }
+  }
+  if (/^\s*package\s+\w+\s*$/m.test(sample) || /^\s*func\s+(\(\w+ \*?\w+\)\s*)?\w+\(/m.test(sample)) return 'go';
+  if (/^\s*(def\s+\w+\(.*\)\s*(->.*)?:|class\s+\w+(\(.*\))?:|from\s+[\w.]+\s+import\s|elif\s.*:)/m.test(sample)) return 'python';
+  if (/\b(select\s[\s\S]+\sfrom|insert\s+into|update\s+\w+\s+set|create\s+table|delete\s+from)\b/i.test(sample)) return 'sql';
+  if (/\binterface\s+\w+\s*\{|\btype\s+\w+\s*=|:\s*(string|number|boolean|unknown|any)\b|\bas\s+const\b/.test(sample)) return 'typescript';
+  if (/\b(function\s*\w*\s*\(|const\s+\w+\s*=|let\s+\w+|=>|require\(|import\s.+\sfrom\s)/.test(sample)) return 'javascript';
+  if (/^\s*(-\s+)?[\w.-]+:(\s|$)/m.test(sample) && !/[{};]\s*$/m.test(sample)) return 'yaml';
+  return 'plaintext';
+};
+
+const NUMBER = /^(0x[\da-fA-F]+|\d[\d_]*(\.\d+)?([eE][+-]?\d+)?)/;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*/;
+const YAML_KEY = /^(\s*(?:-\s+)?)([^\s#'"][^#]*?)(\s*:)(?=\s|$)/;
+
+/**
+ * Splits a single line into coloured tokens. Lines are tokenized
+ * independently, so constructs spanning lines (block comments, multi-line
+ * strings) are only recognised on the line where they start.
+ */
+export const tokenizeLine = (line: string, language: SyntaxLanguage): SyntaxToken[] => {
+  if (language === 'plaintext' || !line) return [{ text: line, kind: 'plain' }];
+
+  const rules = languageRules[language];
+  const tokens: SyntaxToken[] = [];
+  const push = (text: string, kind: SyntaxTokenKind) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      tokens.push({ text, kind });
+    }
+  };
+  const isFollowedByColon = (index: number) => /^\s*:/.test(line.slice(index));
+  let position = 0;
+
+  if (language === 'yaml') {
+    const key = YAML_KEY.exec(line);
+    if (key) {
+      push(key[1], 'punctuation');
+      push(key[2], 'property');
+      push(key[3], 'punctuation');
+      position = key[0].length;
+    }
+  }
+
+  while (position < line.length) {
+    const rest = line.slice(position);
+    const previous = line[position - 1] ?? '';
+
+    const lineComment = rules.lineComments.find(prefix => rest.startsWith(prefix));
+    if (lineComment) {
+      push(rest, 'comment');
+      break;
+    }
+
+    if (rules.blockComment && rest.startsWith(rules.blockComment[0])) {
+      const end = rest.indexOf(rules.blockComment[1], rules.blockComment[0].length);
+      const length = end === -1 ? rest.length : end + rules.blockComment[1].length;
+      push(rest.slice(0, length), 'comment');
+      position += length;
+      continue;
+    }
+
+    const quote = rules.quotes.find(candidate => rest.startsWith(candidate));
+    if (quote) {
+      let end = 1;
+      while (end < rest.length && rest[end] !== quote) {
+        end += rest[end] === '\\' ? 2 : 1;
+      }
+      const length = Math.min(end + 1, rest.length);
+      push(rest.slice(0, length), rules.colonKeys && isFollowedByColon(position + length) ? 'property' : 'string');
+      position += length;
+      continue;
+    }
+
+    const number = !/[\w$]/.test(previous) && NUMBER.exec(rest);
+    if (number) {
+      push(number[0], 'number');
+      position += number[0].length;
+      continue;
+    }
+
+    const identifier = IDENTIFIER.exec(rest);
+    if (identifier) {
+      const word = identifier[0];
+      const lookup = rules.caseInsensitive ? word.toLowerCase() : word;
+      const end = position + word.length;
+      let kind: SyntaxTokenKind = 'plain';
+      if (rules.keywords.has(lookup)) {
+        kind = 'keyword';
+      } else if (rules.literals.has(lookup)) {
+        kind = 'literal';
+      } else if (rules.colonKeys && isFollowedByColon(end)) {
+        kind = 'property';
+      } else if (/^\s*\(/.test(line.slice(end))) {
+        kind = 'function';
+      } else if (/^[A-Z]/.test(word) && language !== 'sql') {
+        kind = 'type';
+      }
+      push(word, kind);
+      position = end;
+      continue;
+    }
+
+    const whitespace = /^\s+/.exec(rest);
+    if (whitespace) {
+      push(whitespace[0], 'plain');
+      position += whitespace[0].length;
+      continue;
+    }
+
+    push(rest[0], 'punctuation');
+    position++;
+  }
+
+  return tokens;
+};
+
+/**
+ * Cuts syntax tokens at intra-line change boundaries so each span carries
+ * both its token colour and whether it falls inside a changed segment.
+ */
+export const highlightLine = (line: string, language: SyntaxLanguage, segments?: DiffSegment[]): HighlightedSpan[] => {
+  const tokens = tokenizeLine(line, language);
+  if (!segments) return tokens.map(token => ({ ...token, changed: false }));
+
+  const spans: HighlightedSpan[] = [];
+  let segmentIndex = 0;
+  let segmentOffset = 0;
+
+  tokens.forEach(token => {
+    let tokenOffset = 0;
+    while (tokenOffset < token.text.length && segmentIndex < segments.length) {
+      const segment = segments[segmentIndex];
+      const length = Math.min(token.text.length - tokenOffset, segment.text.length - segmentOffset);
+      spans.push({ text: token.text.slice(tokenOffset, tokenOffset + length), kind: token.kind, changed: segment.changed });
+      tokenOffset += length;
+      segmentOffset += length;
+      if (segmentOffset === segment.text.length) {
+        segmentIndex++;
+        segmentOffset = 0;
+      }
+    }
+  });
+
+  return spans;
+};
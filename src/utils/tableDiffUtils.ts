@@ -0,0 +1,155 @@
+import { ParsedTable, TableCellDiff, TableColumnDiff, TableDiff, TableRowDiff } from '../types';
+
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+
+/**
+ * Picks the delimiter that splits the first few lines into the same, largest
+ * number of fields. Quoted sections are skipped so embedded commas don't count.
+ */
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10);
+  const countOutsideQuotes = (line: string, delimiter: string) => {
+    let count = 0;
+    let quoted = false;
+    for (const char of line) {
+      if (char === '"') quoted = !quoted;
+      else if (char === delimiter && !quoted) count++;
+    }
+    return count;
+  };
+
+  let best = ',';
+  let bestScore = 0;
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter));
+    const consistent = counts.every(count => count === counts[0]);
+    const score = counts[0] > 0 ? counts[0] * (consistent ? 2 : 1) : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Parses RFC 4180 style delimited text: quoted fields may contain
+ * delimiters, doubled quotes and line breaks. The first record is the header.
+ */
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): ParsedTable => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(row => row.some(cell => cell !== ''));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers, rows, delimiter };
+};
+
+/**
+ * Compares two tables column by column name and row by key. Without a key
+ * column, rows are matched by position. Duplicate keys are paired in the
+ * order they occur. Rows come out in the modified table's order, with
+ * removed rows placed after the row that preceded them in the original.
+ */
+export const diffTables = (left: ParsedTable, right: ParsedTable, keyColumn?: string): TableDiff => {
+  const columns: TableColumnDiff[] = [
+    ...left.headers.map(name => ({ name, status: right.headers.includes(name) ? 'unchanged' as const : 'removed' as const })),
+    ...right.headers.filter(name => !left.headers.includes(name)).map(name => ({ name, status: 'added' as const })),
+  ];
+
+  const leftKeyIndex = keyColumn ? left.headers.indexOf(keyColumn) : -1;
+  const rightKeyIndex = keyColumn ? right.headers.indexOf(keyColumn) : -1;
+  const useKey = leftKeyIndex !== -1 && rightKeyIndex !== -1;
+
+  const rowKeys = (rows: string[][], keyIndex: number) => {
+    const seen = new Map<string, number>();
+    return rows.map((row, index) => {
+      if (!useKey) return String(index + 1);
+      const value = row[keyIndex] ?? '';
+      const occurrence = seen.get(value) ?? 0;
+      seen.set(value, occurrence + 1);
+      return occurrence === 0 ? value : `${value} (${occurrence + 1})`;
+    });
+  };
+
+  const leftKeys = rowKeys(left.rows, leftKeyIndex);
+  const rightKeys = rowKeys(right.rows, rightKeyIndex);
+  const rightIndexByKey = new Map(rightKeys.map((key, index) => [key, index]));
+  const leftIndexByKey = new Map(leftKeys.map((key, index) => [key, index]));
+
+  const cell = (row: string[] | undefined, headers: string[], name: string) => {
+    const index = headers.indexOf(name);
+    return row && index !== -1 ? row[index] ?? '' : undefined;
+  };
+
+  const buildRow = (key: string, leftRow?: string[], rightRow?: string[]): TableRowDiff => {
+    const cells: TableCellDiff[] = columns.map(column => {
+      const oldValue = cell(leftRow, left.headers, column.name);
+      const newValue = cell(rightRow, right.headers, column.name);
+      return { oldValue, newValue, changed: !!leftRow && !!rightRow && column.status === 'unchanged' && oldValue !== newValue };
+    });
+    const status = !leftRow ? 'added' : !rightRow ? 'removed' : cells.some(c => c.changed) ? 'changed' : 'unchanged';
+    return { key, status, cells };
+  };
+
+  // Removed rows are attached to the right-hand row matching their nearest preceding left row.
+  const removedAfter = new Map<number, TableRowDiff[]>();
+  let anchor = -1;
+  left.rows.forEach((row, index) => {
+    const match = rightIndexByKey.get(leftKeys[index]);
+    if (match !== undefined) {
+      anchor = match;
+      return;
+    }
+    const bucket = removedAfter.get(anchor) ?? [];
+    bucket.push(buildRow(leftKeys[index], row, undefined));
+    removedAfter.set(anchor, bucket);
+  });
+
+  const rows: TableRowDiff[] = [...(removedAfter.get(-1) ?? [])];
+  right.rows.forEach((row, index) => {
+    const leftIndex = leftIndexByKey.get(rightKeys[index]);
+    rows.push(buildRow(rightKeys[index], leftIndex === undefined ? undefined : left.rows[leftIndex], row));
+    rows.push(...(removedAfter.get(index) ?? []));
+  });
+
+  return { columns, rows };
+};
@@ -0,0 +1,115 @@
+import { TreeOrientation } from '../types';
+
+export interface TreeLayoutNode {
+  id: string;
+  width: number;
+  height: number;
+  level: number;
+  children: string[];
+}
+
+export interface TreeLayoutOptions {
+  // Space between neighbouring subtrees along the breadth axis.
+  siblingGap?: number;
+  // Space between a parent and its children along the depth axis.
+  levelGap?: number;
+  margin?: number;
+}
+
+// Per-depth [min, max] extent of a subtree along the breadth axis, relative to its root's centre.
+type Contour = Array<[number, number]>;
+
+/**
+ * Tidy tree layout in the spirit of Reingold–Tilford: each subtree is laid
+ * out on its own, siblings are pushed apart just far enough that their
+ * contours don't overlap at any depth, and every parent is centred over its
+ * first and last child. Works with variable node sizes and returns the
+ * top-left corner of every node.
+ */
+export const computeTreeLayout = (
+  nodes: TreeLayoutNode[],
+  orientation: TreeOrientation,
+  { siblingGap = 30, levelGap = 80, margin = 50 }: TreeLayoutOptions = {}
+): Map<string, { x: number; y: number }> => {
+  const positions = new Map<string, { x: number; y: number }>();
+  if (nodes.length === 0) return positions;
+
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const horizontal = orientation === 'left-right';
+  const breadthOf = (node: TreeLayoutNode) => (horizontal ? node.height : node.width);
+  const depthOf = (node: TreeLayoutNode) => (horizontal ? node.width : node.height);
+
+  // Offset of each child's centre from its parent's centre along the breadth axis.
+  const childOffsets = new Map<string, number>();
+
+  const layoutSubtree = (node: TreeLayoutNode): Contour => {
+    const half = breadthOf(node) / 2;
+    const children = node.children.map(id => byId.get(id)).filter((child): child is TreeLayoutNode => !!child);
+    if (children.length === 0) return [[-half, half]];
+
+    const merged: Contour = [];
+    const offsets: number[] = [];
+
+    children.forEach(child => {
+      const contour = layoutSubtree(child);
+      let offset = 0;
+      if (offsets.length > 0) {
+        offset = -Infinity;
+        for (let depth = 0; depth < Math.min(merged.length, contour.length); depth++) {
+          offset = Math.max(offset, merged[depth][1] - contour[depth][0] + siblingGap);
+        }
+      }
+      offsets.push(offset);
+      contour.forEach(([min, max], depth) => {
+        merged[depth] = merged[depth]
+          ? [Math.min(merged[depth][0], min + offset), Math.max(merged[depth][1], max + offset)]
+          : [min + offset, max + offset];
+      });
+    });
+
+    const shift = -(offsets[0] + offsets[offsets.length - 1]) / 2;
+    children.forEach((child, index) => childOffsets.set(child.id, offsets[index] + shift));
+    return [[-half, half], ...merged.map(([min, max]): [number, number] => [min + shift, max + shift])];
+  };
+
+  // Every node on a level shares the same depth coordinate, sized by the level's deepest node.
+  const levelDepths: number[] = [];
+  nodes.forEach(node => {
+    levelDepths[node.level] = Math.max(levelDepths[node.level] ?? 0, depthOf(node));
+  });
+  const levelStarts: number[] = [];
+  levelDepths.reduce((start, depth, level) => {
+    levelStarts[level] = start;
+    return start + (depth ?? 0) + levelGap;
+  }, margin);
+
+  const roots = nodes.filter(node => node.level === 0);
+  let rootStart = 0;
+  let minBreadth = Infinity;
+  const centres = new Map<string, number>();
+
+  const place = (node: TreeLayoutNode, centre: number) => {
+    centres.set(node.id, centre);
+    minBreadth = Math.min(minBreadth, centre - breadthOf(node) / 2);
+    node.children.forEach(id => {
+      const child = byId.get(id);
+      if (child) place(child, centre + (childOffsets.get(id) ?? 0));
+    });
+  };
+
+  roots.forEach(root => {
+    const contour = layoutSubtree(root);
+    const top = Math.min(...contour.map(([min]) => min));
+    const bottom = Math.max(...contour.map(([, max]) => max));
+    place(root, rootStart - top);
+    rootStart += bottom - top + siblingGap;
+  });
+
+  nodes.forEach(node => {
+    const breadth = (centres.get(node.id) ?? 0) - breadthOf(node) / 2 - minBreadth + margin;
+    const depth = levelStarts[node.level] ?? margin;
+    positions.set(node.id, horizontal ? { x: depth, y: breadth } : { x: breadth, y: depth });
+  });
+
+  return positions;
+};
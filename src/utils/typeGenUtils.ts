@@ -0,0 +1,385 @@
+import { inferJsonSchema, JsonSchema } from './jsonSchemaUtils';
+import { TypeLanguage } from '../types';
+
+export const typeLanguages: Array<{ language: TypeLanguage; label: string; extension: string }> = [
+  { language: 'typescript', label: 'TypeScript', extension: 'ts' },
+  { language: 'zod', label: 'Zod', extension: 'ts' },
+  { language: 'go', label: 'Go', extension: 'go' },
+  { language: 'rust', label: 'Rust (serde)', extension: 'rs' },
+  { language: 'python', label: 'Python dataclasses', extension: 'py' },
+  { language: 'pydantic', label: 'Python pydantic', extension: 'py' },
+];
+
+type TypeShape =
+  | { kind: 'primitive'; type: 'string' | 'integer' | 'number' | 'boolean' | 'null' | 'any'; format?: string }
+  | { kind: 'array'; items: TypeShape }
+  | { kind: 'object'; name: string }
+  | { kind: 'union'; members: TypeShape[] };
+
+interface TypeField {
+  key: string;
+  shape: TypeShape;
+  // Missing from some of the sampled objects.
+  optional: boolean;
+}
+
+interface TypeStruct {
+  name: string;
+  fields: TypeField[];
+}
+
+const ANY: TypeShape = { kind: 'primitive', type: 'any' };
+
+const splitWords = (text: string) =>
+  text.replace(/([a-z\d])([A-Z])/g, '$1 $2').split(/[^A-Za-z\d]+/).filter(Boolean);
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+const toPascalCase = (text: string) => {
+  const name = splitWords(text).map(capitalize).join('');
+  return /^\d/.test(name) ? `T${name}` : name;
+};
+
+const toSnakeCase = (text: string) => {
+  const name = splitWords(text).map(word => word.toLowerCase()).join('_');
+  return /^\d/.test(name) ? `field_${name}` : name;
+};
+
+// Names the items of an array after the array's key: `users` holds `User`s.
+const singularize = (name: string) => {
+  if (/ies$/.test(name)) return name.replace(/ies$/, 'y');
+  if (/(ss|x|ch|sh)es$/.test(name)) return name.replace(/es$/, '');
+  if (/[^s]s$/.test(name)) return name.slice(0, -1);
+  return `${name}Item`;
+};
+
+const withSuffix = (name: string, taken: (candidate: string) => boolean) => {
+  let candidate = name;
+  for (let index = 2; taken(candidate); index++) candidate = `${name}${index}`;
+  return candidate;
+};
+
+/**
+ * Turns an inferred schema into named structs. Structs are listed with
+ * their dependencies first, and an identical shape seen under the same
+ * name again (e.g. in two arrays) is only emitted once.
+ */
+const collectTypes = (schema: JsonSchema, rootName: string) => {
+  const structs: TypeStruct[] = [];
+
+  const addStruct = (objectSchema: JsonSchema, nameHint: string): string => {
+    const properties = (objectSchema.properties ?? {}) as Record<string, JsonSchema>;
+    const required = (objectSchema.required ?? []) as string[];
+    const fields = Object.entries(properties).map(([key, property]) => ({
+      key,
+      shape: toShape(property, toPascalCase(key) || 'Field'),
+      optional: !required.includes(key),
+    }));
+
+    const signature = JSON.stringify(fields);
+    const baseName = nameHint || 'Type';
+    const existing = structs.find(struct => struct.name.replace(/\d+$/, '') === baseName && JSON.stringify(struct.fields) === signature);
+    if (existing) return existing.name;
+
+    const name = withSuffix(baseName, candidate => structs.some(struct => struct.name === candidate));
+    structs.push({ name, fields });
+    return name;
+  };
+
+  const toShape = (node: JsonSchema, nameHint: string): TypeShape => {
+    if (Array.isArray(node.anyOf)) return makeUnion((node.anyOf as JsonSchema[]).map(member => toShape(member, nameHint)));
+    if (Array.isArray(node.type)) return makeUnion((node.type as string[]).map(type => toShape({ ...node, type }, nameHint)));
+
+    switch (node.type) {
+      case 'object':
+        return { kind: 'object', name: addStruct(node, nameHint) };
+      case 'array':
+        return { kind: 'array', items: node.items ? toShape(node.items as JsonSchema, singularize(nameHint)) : ANY };
+      case 'string':
+      case 'integer':
+      case 'number':
+      case 'boolean':
+      case 'null':
+        return { kind: 'primitive', type: node.type, format: node.format as string | undefined };
+      default:
+        return ANY;
+    }
+  };
+
+  const root = toShape(schema, rootName);
+  return { root, structs };
+};
+
+const makeUnion = (members: TypeShape[]): TypeShape => {
+  const flat = members.flatMap(member => (member.kind === 'union' ? member.members : [member]));
+  return flat.length === 1 ? flat[0] : { kind: 'union', members: flat };
+};
+
+const isNull = (shape: TypeShape) => shape.kind === 'primitive' && shape.type === 'null';
+
+// Most languages spell "or null" separately from other unions.
+const splitNullable = (shape: TypeShape): { shape: TypeShape; nullable: boolean } => {
+  if (shape.kind !== 'union' || !shape.members.some(isNull)) return { shape, nullable: false };
+  const rest = shape.members.filter(member => !isNull(member));
+  return { shape: rest.length === 0 ? ANY : makeUnion(rest), nullable: true };
+};
+
+const generateTypeScript = (root: TypeShape, structs: TypeStruct[], rootName: string) => {
+  const render = (shape: TypeShape): string => {
+    switch (shape.kind) {
+      case 'primitive':
+        return { string: 'string', integer: 'number', number: 'number', boolean: 'boolean', null: 'null', any: 'unknown' }[shape.type];
+      case 'array': {
+        const items = render(shape.items);
+        return shape.items.kind === 'union' ? `(${items})[]` : `${items}[]`;
+      }
+      case 'object':
+        return shape.name;
+      case 'union':
+        return shape.members.map(render).join(' | ');
+    }
+  };
+
+  const declarations = structs.slice().reverse().map(struct => [
+    `export interface ${struct.name} {`,
+    ...struct.fields.map(field => {
+      const key = /^[A-Za-z_$][\w$]*$/.test(field.key) ? field.key : JSON.stringify(field.key);
+      return `  ${key}${field.optional ? '?' : ''}: ${render(field.shape)};`;
+    }),
+    '}',
+  ].join('\n'));
+
+  if (root.kind !== 'object') declarations.unshift(`export type ${rootName} = ${render(root)};`);
+  return declarations.join('\n\n');
+};
+
+const ZOD_FORMATS: Record<string, string> = { email: '.email()', uri: '.url()', uuid: '.uuid()', 'date-time': '.datetime({ offset: true })' };
+
+const generateZod = (root: TypeShape, structs: TypeStruct[], rootName: string) => {
+  const render = (shape: TypeShape): string => {
+    const { shape: inner, nullable } = splitNullable(shape);
+    if (nullable) return inner === ANY ? 'z.null()' : `${render(inner)}.nullable()`;
+
+    switch (shape.kind) {
+      case 'primitive':
+        if (shape.type === 'string') return `z.string()${(shape.format && ZOD_FORMATS[shape.format]) ?? ''}`;
+        return { integer: 'z.number().int()', number: 'z.number()', boolean: 'z.boolean()', null: 'z.null()', any: 'z.unknown()' }[shape.type];
+      case 'array':
+        return `z.array(${render(shape.items)})`;
+      case 'object':
+        return `${shape.name}Schema`;
+      case 'union':
+        return `z.union([${shape.members.map(render).join(', ')}])`;
+    }
+  };
+
+  const declarations = structs.map(struct => [
+    `export const ${struct.name}Schema = z.object({`,
+    ...struct.fields.map(field => {
+      const key = /^[A-Za-z_$][\w$]*$/.test(field.key) ? field.key : JSON.stringify(field.key);
+      return `  ${key}: ${render(field.shape)}${field.optional ? '.optional()' : ''},`;
+    }),
+    '});',
+    `export type ${struct.name} = z.infer<typeof ${struct.name}Schema>;`,
+  ].join('\n'));
+
+  if (root.kind !== 'object') {
+    declarations.push(`export const ${rootName}Schema = ${render(root)};\nexport type ${rootName} = z.infer<typeof ${rootName}Schema>;`);
+  }
+  return [`import { z } from 'zod';`, ...declarations].join('\n\n');
+};
+
+const GO_INITIALISMS = new Set(['id', 'url', 'uri', 'api', 'http', 'https', 'json', 'uuid', 'ip', 'html', 'sql', 'xml', 'css']);
+
+const toGoName = (key: string) => {
+  const name = splitWords(key).map(word => (GO_INITIALISMS.has(word.toLowerCase()) ? word.toUpperCase() : capitalize(word))).join('');
+  if (!name) return 'Field';
+  return /^\d/.test(name) ? `F${name}` : name;
+};
+
+// Go and Rust have no unions; the members each catch-all type stands for are listed in a comment.
+const describeUnions = (render: (shape: TypeShape) => string, shape: TypeShape): string | null => {
+  const unions: string[] = [];
+  const visit = (current: TypeShape) => {
+    if (current.kind === 'array') visit(current.items);
+    if (current.kind !== 'union') return;
+    const members = current.members.filter(member => !isNull(member));
+    if (members.length > 1) unions.push(members.map(render).join(' | '));
+    members.forEach(visit);
+  };
+  visit(shape);
+  return unions.length > 0 ? `One of: ${unions.join('; ')}` : null;
+};
+
+const generateGo = (root: TypeShape, structs: TypeStruct[], rootName: string) => {
+  const render = (shape: TypeShape): string => {
+    const { shape: inner, nullable } = splitNullable(shape);
+    if (nullable) return inner.kind === 'primitive' || inner.kind === 'object' ? `*${render(inner)}` : render(inner);
+
+    switch (shape.kind) {
+      case 'primitive':
+        return { string: 'string', integer: 'int64', number: 'float64', boolean: 'bool', null: 'any', any: 'any' }[shape.type];
+      case 'array':
+        return `[]${render(shape.items)}`;
+      case 'object':
+        return shape.name;
+      case 'union':
+        return 'any';
+    }
+  };
+
+  const declarations = structs.slice().reverse().map(struct => {
+    const names = new Set<string>();
+    const lines = struct.fields.map(field => {
+      const name = withSuffix(toGoName(field.key), candidate => names.has(candidate));
+      names.add(name);
+      const type = render(field.shape);
+      const tag = `\`json:"${field.key.replace(/["`\\]/g, '')}${field.optional ? ',omitempty' : ''}"\``;
+      // Pointers tell a missing field apart from its zero value; slices and any can already be nil.
+      const pointer = field.optional && !/^(\*|\[\]|any$)/.test(type);
+      return { name, type: pointer ? `*${type}` : type, tag, comment: describeUnions(render, field.shape) };
+    });
+    // gofmt aligns field names, types and tags into columns.
+    const nameWidth = Math.max(0, ...lines.map(line => line.name.length));
+    const typeWidth = Math.max(0, ...lines.map(line => line.type.length));
+    return [
+      `type ${struct.name} struct {`,
+      ...lines.flatMap(line => [
+        ...(line.comment ? [`\t// ${line.comment}`] : []),
+        `\t${line.name.padEnd(nameWidth)} ${line.type.padEnd(typeWidth)} ${line.tag}`,
+      ]),
+      '}',
+    ].join('\n');
+  });
+
+  if (root.kind !== 'object') {
+    const comment = describeUnions(render, root);
+    declarations.unshift(`${comment ? `// ${comment}\n` : ''}type ${rootName} ${render(root)}`);
+  }
+  return ['package main', ...declarations].join('\n\n');
+};
+
+const RUST_KEYWORDS = new Set(['as', 'async', 'await', 'box', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'false', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'static', 'struct', 'super', 'trait', 'true', 'type', 'unsafe', 'use', 'where', 'while', 'yield']);
+
+const generateRust = (root: TypeShape, structs: TypeStruct[], rootName: string) => {
+  const render = (shape: TypeShape): string => {
+    const { shape: inner, nullable } = splitNullable(shape);
+    if (nullable) return inner === ANY ? 'serde_json::Value' : `Option<${render(inner)}>`;
+
+    switch (shape.kind) {
+      case 'primitive':
+        return { string: 'String', integer: 'i64', number: 'f64', boolean: 'bool', null: 'serde_json::Value', any: 'serde_json::Value' }[shape.type];
+      case 'array':
+        return `Vec<${render(shape.items)}>`;
+      case 'object':
+        return shape.name;
+      case 'union':
+        return 'serde_json::Value';
+    }
+  };
+
+  const declarations = structs.slice().reverse().map(struct => {
+    const names = new Set<string>();
+    const lines = struct.fields.flatMap(field => {
+      let name = toSnakeCase(field.key) || 'field';
+      if (RUST_KEYWORDS.has(name)) name = `${name}_`;
+      name = withSuffix(name, candidate => names.has(candidate));
+      names.add(name);
+
+      // serde fills in None for a missing Option field, so optional fields only need the wrapper.
+      const rendered = render(field.shape);
+      const type = field.optional && !rendered.startsWith('Option<') ? `Option<${rendered}>` : rendered;
+      const rename = name === field.key ? [] : [`    #[serde(rename = ${JSON.stringify(field.key)})]`];
+      const comment = describeUnions(render, field.shape);
+      return [...(comment ? [`    /// ${comment}`] : []), ...rename, `    pub ${name}: ${type},`];
+    });
+    return ['#[derive(Debug, Clone, Serialize, Deserialize)]', `pub struct ${struct.name} {`, ...lines, '}'].join('\n');
+  });
+
+  if (root.kind !== 'object') {
+    const comment = describeUnions(render, root);
+    declarations.unshift(`${comment ? `/// ${comment}\n` : ''}pub type ${rootName} = ${render(root)};`);
+  }
+  return ['use serde::{Deserialize, Serialize};', ...declarations].join('\n\n');
+};
+
+const PYTHON_KEYWORDS = new Set(['False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield']);
+
+const generatePython = (root: TypeShape, structs: TypeStruct[], rootName: string, pydantic: boolean) => {
+  const render = (shape: TypeShape): string => {
+    const { shape: inner, nullable } = splitNullable(shape);
+    if (nullable) return inner === ANY ? 'None' : `Optional[${render(inner)}]`;
+
+    switch (shape.kind) {
+      case 'primitive':
+        return { string: 'str', integer: 'int', number: 'float', boolean: 'bool', null: 'None', any: 'Any' }[shape.type];
+      case 'array':
+        return `List[${render(shape.items)}]`;
+      case 'object':
+        return shape.name;
+      case 'union':
+        return `Union[${shape.members.map(render).join(', ')}]`;
+    }
+  };
+
+  const declarations = structs.map(struct => {
+    const names = new Set<string>();
+    const fields = struct.fields.map(field => {
+      let name = toSnakeCase(field.key) || 'field';
+      if (PYTHON_KEYWORDS.has(name)) name = `${name}_`;
+      name = withSuffix(name, candidate => names.has(candidate));
+      names.add(name);
+
+      const rendered = render(field.shape);
+      const type = field.optional && !rendered.startsWith('Optional[') ? `Optional[${rendered}]` : rendered;
+      if (pydantic) {
+        const alias = name === field.key ? '' : `alias=${JSON.stringify(field.key)}`;
+        const options = [field.optional ? 'default=None' : '', alias].filter(Boolean).join(', ');
+        const assignment = alias ? ` = Field(${options})` : field.optional ? ' = None' : '';
+        return { optional: field.optional, line: `    ${name}: ${type}${assignment}` };
+      }
+      const comment = name === field.key ? '' : `  # JSON key: ${JSON.stringify(field.key)}`;
+      return { optional: field.optional, line: `    ${name}: ${type}${field.optional ? ' = None' : ''}${comment}` };
+    });
+
+    // Dataclass fields with defaults have to come after the ones without.
+    const ordered = pydantic ? fields : [...fields.filter(field => !field.optional), ...fields.filter(field => field.optional)];
+    return [
+      ...(pydantic ? [] : ['@dataclass']),
+      `class ${struct.name}${pydantic ? '(BaseModel)' : ''}:`,
+      ...(ordered.length > 0 ? ordered.map(field => field.line) : ['    pass']),
+    ].join('\n');
+  });
+
+  if (root.kind !== 'object') declarations.push(`${rootName} = ${render(root)}`);
+  const imports = pydantic
+    ? 'from typing import Any, List, Optional, Union\n\nfrom pydantic import BaseModel, Field'
+    : 'from dataclasses import dataclass\nfrom typing import Any, List, Optional, Union';
+  return [imports, ...declarations].join('\n\n\n');
+};
+
+/**
+ * Generates type declarations for a sample document. Shapes come from the
+ * inferred JSON Schema, so array items are merged into one type with
+ * optional fields and mixed values become unions; type names follow the
+ * keys they were found under.
+ */
+export const generateTypes = (value: unknown, language: TypeLanguage, rootName = 'Root'): string => {
+  const name = toPascalCase(rootName) || 'Root';
+  const { root, structs } = collectTypes(inferJsonSchema(value), name);
+
+  switch (language) {
+    case 'typescript':
+      return generateTypeScript(root, structs, name);
+    case 'zod':
+      return generateZod(root, structs, name);
+    case 'go':
+      return generateGo(root, structs, name);
+    case 'rust':
+      return generateRust(root, structs, name);
+    case 'python':
+      return generatePython(root, structs, name, false);
+    case 'pydantic':
+      return generatePython(root, structs, name, true);
+  }
+};
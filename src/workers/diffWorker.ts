@@ -0,0 +1,26 @@
+import { createLineDiff, createUnifiedDiff, LineDiffOptions, SideBySideDiff } from '../utils/diffUtils';
+import { DiffHunk } from '../types';
+
+export interface DiffWorkerRequest {
+  id: number;
+  leftText: string;
+  rightText: string;
+  options: LineDiffOptions;
+  context: number;
+}
+
+export interface DiffWorkerResponse {
+  id: number;
+  diff: SideBySideDiff;
+  unifiedHunks: DiffHunk[];
+}
+
+self.addEventListener('message', (event: MessageEvent<DiffWorkerRequest>) => {
+  const { id, leftText, rightText, options, context } = event.data;
+  const response: DiffWorkerResponse = {
+    id,
+    diff: createLineDiff(leftText, rightText, options),
+    unifiedHunks: createUnifiedDiff(leftText, rightText, { ...options, context }),
+  };
+  self.postMessage(response);
+});
@@ -0,0 +1,31 @@
+import { detectDataFormat, parseDataText } from '../utils/dataFormatUtils';
+import { DataFormat } from '../types';
+
+export interface JsonParseRequest {
+  id: number;
+  text: string;
+  format: DataFormat | 'auto';
+}
+
+export interface JsonParseResponse {
+  id: number;
+  format: DataFormat;
+  value?: unknown;
+  numberLiterals?: Map<string, string>;
+  error?: string;
+}
+
+self.addEventListener('message', (event: MessageEvent<JsonParseRequest>) => {
+  const { id, text, format } = event.data;
+  let response: JsonParseResponse;
+  try {
+    response = { id, ...parseDataText(text, format) };
+  } catch (error) {
+    response = {
+      id,
+      format: format === 'auto' ? detectDataFormat(text) : format,
+      error: error instanceof Error ? error.message : 'Invalid input',
+    };
+  }
+  self.postMessage(response);
+});